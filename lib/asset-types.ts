@@ -0,0 +1,163 @@
+import path from 'path';
+
+export type AssetCategory = 'image' | 'font' | 'document';
+
+export interface AssetType {
+  mimeType: string;
+  extensions: string[];
+  category: AssetCategory;
+  // Whether the leading bytes of a file are of this type
+  matches: (header: Buffer) => boolean;
+}
+
+const startsWith = (header: Buffer, bytes: number[], offset: number = 0) =>
+  header.length >= offset + bytes.length && bytes.every((byte, i) => header[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(text).map(char => char.charCodeAt(0));
+
+/**
+ * Types that can be uploaded as site assets, recognised by their magic bytes
+ */
+export const ASSET_TYPES: AssetType[] = [
+  {
+    mimeType: 'image/png',
+    extensions: ['.png'],
+    category: 'image',
+    matches: header => startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  },
+  {
+    mimeType: 'image/jpeg',
+    extensions: ['.jpg', '.jpeg'],
+    category: 'image',
+    matches: header => startsWith(header, [0xff, 0xd8, 0xff])
+  },
+  {
+    mimeType: 'image/gif',
+    extensions: ['.gif'],
+    category: 'image',
+    matches: header => startsWith(header, ascii('GIF87a')) || startsWith(header, ascii('GIF89a'))
+  },
+  {
+    mimeType: 'image/webp',
+    extensions: ['.webp'],
+    category: 'image',
+    matches: header => startsWith(header, ascii('RIFF')) && startsWith(header, ascii('WEBP'), 8)
+  },
+  {
+    mimeType: 'image/avif',
+    extensions: ['.avif'],
+    category: 'image',
+    matches: header => startsWith(header, ascii('ftypavif'), 4) || startsWith(header, ascii('ftypavis'), 4)
+  },
+  {
+    mimeType: 'image/x-icon',
+    extensions: ['.ico'],
+    category: 'image',
+    matches: header => startsWith(header, [0x00, 0x00, 0x01, 0x00])
+  },
+  {
+    mimeType: 'image/svg+xml',
+    extensions: ['.svg'],
+    category: 'image',
+    matches: header => {
+      const text = header.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+      return /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text);
+    }
+  },
+  {
+    mimeType: 'font/woff',
+    extensions: ['.woff'],
+    category: 'font',
+    matches: header => startsWith(header, ascii('wOFF'))
+  },
+  {
+    mimeType: 'font/woff2',
+    extensions: ['.woff2'],
+    category: 'font',
+    matches: header => startsWith(header, ascii('wOF2'))
+  },
+  {
+    mimeType: 'font/ttf',
+    extensions: ['.ttf'],
+    category: 'font',
+    matches: header => startsWith(header, [0x00, 0x01, 0x00, 0x00])
+  },
+  {
+    mimeType: 'font/otf',
+    extensions: ['.otf'],
+    category: 'font',
+    matches: header => startsWith(header, ascii('OTTO'))
+  },
+  {
+    mimeType: 'application/pdf',
+    extensions: ['.pdf'],
+    category: 'document',
+    matches: header => startsWith(header, ascii('%PDF-'))
+  }
+];
+
+// Content types of the text files a site is made of, for downloads
+const TEXT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.scss': 'text/x-scss; charset=utf-8',
+  '.sass': 'text/x-sass; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.yml': 'text/yaml; charset=utf-8',
+  '.yaml': 'text/yaml; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8'
+};
+
+// Default folder per category for uploads that don't name one
+export const ASSET_DIRECTORIES: Record<AssetCategory, string> = {
+  image: 'assets/images',
+  font: 'assets/fonts',
+  document: 'assets/files'
+};
+
+/**
+ * Detect the asset type from the first bytes of a file
+ */
+export function sniffAssetType(header: Buffer): AssetType | undefined {
+  return ASSET_TYPES.find(type => type.matches(header));
+}
+
+/**
+ * Asset types accepted for upload. `ASSET_ALLOWED_TYPES` takes a comma
+ * separated list of MIME types and/or categories (`image`, `font`, `document`).
+ */
+export function getAllowedAssetTypes(): AssetType[] {
+  const setting = process.env.ASSET_ALLOWED_TYPES;
+  if (!setting) {
+    return ASSET_TYPES;
+  }
+
+  const allowed = setting.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  return ASSET_TYPES.filter(type =>
+    allowed.includes(type.mimeType) || allowed.includes(type.category) || allowed.includes(`${type.category}/*`)
+  );
+}
+
+/**
+ * Largest accepted upload in bytes (`ASSET_MAX_SIZE_MB`, default 10)
+ */
+export function getMaxAssetSize(): number {
+  const megabytes = parseFloat(process.env.ASSET_MAX_SIZE_MB || '') || 10;
+  return Math.round(megabytes * 1024 * 1024);
+}
+
+/**
+ * Content type for serving a site file: sniffed for binary assets,
+ * by extension for text files
+ */
+export function contentTypeFor(filePath: string, header: Buffer): string {
+  const sniffed = sniffAssetType(header);
+  if (sniffed) {
+    return sniffed.mimeType;
+  }
+
+  return TEXT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
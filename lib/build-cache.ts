@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+
+// Jekyll's own caches, kept in the site folder between builds
+export const JEKYLL_CACHE_ENTRIES = ['.jekyll-cache', '.jekyll-metadata'];
+
+// Caches and tooling folders at the site root that never change what Jekyll
+// generates. Build output (`_site`, `_site-<profile>`, ...) is skipped by its
+// prefix. Like Jekyll's own excludes, these only apply at the top level.
+const IGNORED_ENTRIES = new Set([
+  '.sass-cache',
+  '.git',
+  '.bundle',
+  'vendor',
+  'node_modules',
+  ...JEKYLL_CACHE_ENTRIES
+]);
+
+export interface BuildCacheInfo {
+  // Sources were unchanged since the last successful build, Jekyll did not run
+  hit: boolean;
+  // Missing when the tree could not be hashed
+  sourceHash?: string;
+  incremental: boolean;
+  // Jekyll caches from an earlier build were there to reuse
+  warm: boolean;
+}
+
+/**
+ * Whether a path (relative to the site, `/`-separated) lies in build output
+ * or a cache rather than the sources. Only its top-level entry counts, so
+ * `assets/vendor/` is a source folder.
+ */
+export function isBuildArtifact(relativePath: string): boolean {
+  const [top] = relativePath.split('/');
+  return IGNORED_ENTRIES.has(top) || top.startsWith('_site');
+}
+
+/**
+ * Hash of every source file (path and content) of a site, so an unchanged
+ * tree can be recognised without building it
+ */
+export async function hashSourceTree(sitePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+
+  const walk = async (directory: string): Promise<void> => {
+    const entries = (await fs.readdir(path.join(sitePath, directory), { withFileTypes: true }))
+      .filter(entry => !isBuildArtifact(path.posix.join(directory, entry.name)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const relativePath = path.posix.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile()) {
+        const content = await fs.readFile(path.join(sitePath, relativePath));
+        hash.update(relativePath).update('\0');
+        hash.update(crypto.createHash('sha256').update(content).digest('hex')).update('\n');
+      }
+    }
+  };
+
+  await walk('');
+  return hash.digest('hex');
+}
+
+/**
+ * Whether Jekyll left caches behind in the site folder
+ */
+export async function hasJekyllCache(sitePath: string): Promise<boolean> {
+  for (const entry of JEKYLL_CACHE_ENTRIES) {
+    if (await fs.pathExists(path.join(sitePath, entry))) {
+      return true;
+    }
+  }
+  return false;
+}
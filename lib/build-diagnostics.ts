@@ -0,0 +1,214 @@
+export type DiagnosticKind = 'liquid' | 'yaml' | 'sass' | 'markdown' | 'config' | 'dependency' | 'jekyll';
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface BuildDiagnostic {
+  kind: DiagnosticKind;
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+// Lines that only add noise (Ruby backtraces, progress output)
+const NOISE_PATTERNS = [
+  /^\s*from\s+\S+:\d+:in\b/,
+  /^\s*\/\S+\.rb:\d+:in\b/,
+  /^\s*(Configuration file|Source|Destination|Incremental build|Generating\.\.\.|done in|Auto-regeneration|Server address|Server running)\b/
+];
+
+/**
+ * Turn an absolute path from the build environment into a path relative to
+ * the site root. `roots` are the locations the site is known under
+ * (host path, path inside the container, ...).
+ */
+function relativeFile(file: string, roots: string[]): string {
+  const cleaned = file.trim().replace(/^['"]|['":,.]+$/g, '');
+
+  for (const root of roots) {
+    const prefix = root.endsWith('/') ? root : `${root}/`;
+    if (cleaned.startsWith(prefix)) {
+      return cleaned.substring(prefix.length);
+    }
+  }
+
+  return cleaned;
+}
+
+/**
+ * Pull "line N" / "line N column M" positions out of a message
+ */
+function findPosition(text: string): { line?: number; column?: number } {
+  const match = text.match(/\bline (\d+)(?:,? column (\d+))?/i);
+  if (!match) {
+    return {};
+  }
+  return {
+    line: parseInt(match[1], 10),
+    column: match[2] ? parseInt(match[2], 10) : undefined
+  };
+}
+
+/**
+ * Parse Jekyll build output (stdout + stderr) into structured diagnostics.
+ * Unrecognised error lines still come back as generic `jekyll` errors so
+ * nothing the build complained about gets lost.
+ */
+export function parseBuildDiagnostics(output: string, roots: string[] = []): BuildDiagnostic[] {
+  const diagnostics: BuildDiagnostic[] = [];
+  const lines = output.split(/\r?\n/).map(line => line.replace(/\x1b\[[0-9;]*m/g, ''));
+  let pendingSass: BuildDiagnostic | null = null;
+
+  const push = (diagnostic: BuildDiagnostic) => {
+    const duplicate = diagnostics.some(existing =>
+      existing.file === diagnostic.file &&
+      existing.line === diagnostic.line &&
+      existing.message === diagnostic.message
+    );
+    if (!duplicate) {
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || NOISE_PATTERNS.some(pattern => pattern.test(lines[i]))) {
+      continue;
+    }
+
+    // Sass errors span several lines after the "Conversion error" header
+    if (pendingSass) {
+      const location = line.match(/^(\S+\.s[ac]ss)\s+(\d+):(\d+)/);
+      const oldStyle = line.match(/\bon line (\d+)(?: of (\S+))?/);
+
+      if (location) {
+        pendingSass.file = relativeFile(location[1], roots);
+        pendingSass.line = parseInt(location[2], 10);
+        pendingSass.column = parseInt(location[3], 10);
+        push(pendingSass);
+        pendingSass = null;
+        continue;
+      }
+
+      if (!pendingSass.message && /^Error:/i.test(line)) {
+        pendingSass.message = line.replace(/^Error:\s*/i, '');
+        if (oldStyle) {
+          pendingSass.line = parseInt(oldStyle[1], 10);
+          pendingSass.message = pendingSass.message.replace(/\s*on line \d+.*$/, '');
+        }
+        continue;
+      }
+
+      if (!pendingSass.message && oldStyle) {
+        pendingSass.message = line.replace(/\s*on line \d+.*$/, '');
+        pendingSass.line = parseInt(oldStyle[1], 10);
+        push(pendingSass);
+        pendingSass = null;
+        continue;
+      }
+
+      if (/^[╷│╵]|^\d+\s*│/.test(line) || line.startsWith('...')) {
+        continue;
+      }
+
+      // Ran out of Sass context, keep what we have
+      if (pendingSass.message) {
+        push(pendingSass);
+      }
+      pendingSass = null;
+    }
+
+    let match: RegExpMatchArray | null;
+
+    // Liquid Exception: Liquid syntax error (line 5): Unknown tag 'foo' in _layouts/default.html
+    if ((match = line.match(/^Liquid (Exception|Warning):\s*(.+?)(?: in (\S+))?$/))) {
+      push({
+        kind: 'liquid',
+        severity: match[1] === 'Warning' ? 'warning' : 'error',
+        message: match[2].replace(/^Liquid (syntax )?error \(line \d+\):\s*/i, ''),
+        file: match[3] ? relativeFile(match[3], roots) : undefined,
+        ...findPosition(match[2])
+      });
+      continue;
+    }
+
+    // Error reading file /path/post.md: (<unknown>): did not find expected key ... at line 2 column 1
+    // YAML Exception reading /path/post.md: (<unknown>): mapping values are not allowed ... at line 3 column 8
+    if ((match = line.match(/^(?:Error reading file|YAML Exception reading)\s+(\S+?):\s*(.+)$/))) {
+      const file = relativeFile(match[1], roots);
+      push({
+        kind: /(^|\/)_config[^/]*\.ya?ml$/.test(file) ? 'config' : 'yaml',
+        severity: 'error',
+        message: match[2].replace(/^\(<unknown>\):\s*/, '').replace(/\s+at line \d+ column \d+$/, ''),
+        file,
+        ...findPosition(match[2])
+      });
+      continue;
+    }
+
+    // Error: could not read file /path/_config.yml: ... / Error:  (/path/_config.yml): ...
+    if ((match = line.match(/(?:could not read file\s+|\()(\S*_config[^\s)]*\.ya?ml)\)?:\s*(.+)$/))) {
+      push({
+        kind: 'config',
+        severity: 'error',
+        message: match[2].replace(/^\(<unknown>\):\s*/, '').replace(/\s+at line \d+ column \d+$/, ''),
+        file: relativeFile(match[1], roots),
+        ...findPosition(match[2])
+      });
+      continue;
+    }
+
+    // Conversion error: Jekyll::Converters::Scss encountered an error while converting 'assets/css/main.scss':
+    if ((match = line.match(/^Conversion error:\s*Jekyll::Converters::(\w+) encountered an error while converting '([^']+)':?\s*(.*)$/))) {
+      const converter = match[1].toLowerCase();
+      const diagnostic: BuildDiagnostic = {
+        kind: converter === 'scss' || converter === 'sass' ? 'sass' : 'markdown',
+        severity: 'error',
+        message: match[3].replace(/^Error:\s*/i, ''),
+        file: relativeFile(match[2], roots)
+      };
+
+      if (diagnostic.kind === 'sass') {
+        pendingSass = diagnostic;
+      } else {
+        push(diagnostic);
+      }
+      continue;
+    }
+
+    // Dependency Error: Yikes! It looks like you don't have jekyll-feed or one of its dependencies installed.
+    if ((match = line.match(/^Dependency Error:\s*(.+)$/))) {
+      push({ kind: 'dependency', severity: 'error', message: match[1] });
+      continue;
+    }
+
+    // Build Warning: Layout 'post' requested in _posts/2024-01-01-hello.md does not exist.
+    if ((match = line.match(/^(?:Build Warning|Warning|Deprecation):\s*(.+)$/))) {
+      const fileMatch = match[1].match(/\bin (\S+\.\w+)/);
+      push({
+        kind: 'jekyll',
+        severity: 'warning',
+        message: match[1],
+        file: fileMatch ? relativeFile(fileMatch[1], roots) : undefined,
+        ...findPosition(match[1])
+      });
+      continue;
+    }
+
+    // jekyll 4.3.2 | Error:  Something went wrong / Error: Something went wrong
+    if ((match = line.match(/^(?:jekyll [\d.]+ \| )?Error:\s+(.+)$/))) {
+      const message = match[1].trim();
+      // Jekyll repeats Liquid errors as "Error: Liquid error ..." once more
+      if (/^Liquid (syntax )?error/i.test(message) && diagnostics.some(d => d.kind === 'liquid')) {
+        continue;
+      }
+      push({ kind: 'jekyll', severity: 'error', message, ...findPosition(message) });
+    }
+  }
+
+  if (pendingSass && pendingSass.message) {
+    push(pendingSass);
+  }
+
+  return diagnostics;
+}
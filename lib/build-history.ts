@@ -0,0 +1,211 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { BuildJob, BuildJobStatus } from './build-queue';
+import type { BuildDiagnostic } from './build-diagnostics';
+
+export interface BuildRecord {
+  id: string;
+  siteId: string;
+  status: BuildJobStatus;
+  triggeredBy?: string;
+  profile?: string;
+  // Output folder the build wrote to
+  destination?: string;
+  commit?: string;
+  // Whether the `_site` output of this build is still kept
+  snapshot: boolean;
+  // Skipped because the sources had not changed
+  cacheHit: boolean;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  waitTime?: number;
+  duration?: number;
+  buildTime?: number;
+  error?: string;
+  diagnostics: BuildDiagnostic[];
+}
+
+// Finished builds kept on disk per site
+const MAX_RECORDS_PER_SITE = 100;
+
+// Raw stderr can be huge, the diagnostics carry the useful part
+const MAX_ERROR_LENGTH = 10000;
+
+/**
+ * Summarize a build job as a plain record (no build output)
+ */
+export function toBuildRecord(job: BuildJob): BuildRecord {
+  return {
+    id: job.id,
+    siteId: job.siteId,
+    status: job.status,
+    triggeredBy: job.triggeredBy,
+    profile: job.profile,
+    destination: job.result?.destination,
+    commit: job.result?.commit,
+    snapshot: !!job.result?.snapshot,
+    cacheHit: !!job.result?.cache?.hit,
+    queuedAt: job.queuedAt.toISOString(),
+    startedAt: job.startedAt?.toISOString(),
+    finishedAt: job.finishedAt?.toISOString(),
+    waitTime: job.waitTime,
+    duration: job.duration,
+    buildTime: job.result?.buildTime,
+    error: job.error ? job.error.substring(0, MAX_ERROR_LENGTH) : undefined,
+    diagnostics: job.result?.diagnostics || []
+  };
+}
+
+/**
+ * Finished build records, one JSON file per site
+ * (default: projects/.studio/builds/<siteId>/builds.json), and the `_site`
+ * output of the last `snapshotLimit` successful builds next to it
+ * (projects/.studio/builds/<siteId>/<buildId>/).
+ */
+class BuildHistory {
+  private baseDir: string;
+  private snapshotLimit: number;
+  private writeQueues: Map<string, Promise<void>> = new Map();
+
+  constructor(baseDir: string, snapshotLimit: number = 5) {
+    this.baseDir = baseDir;
+    this.snapshotLimit = Math.max(1, snapshotLimit);
+  }
+
+  /**
+   * Store a finished job, dropping the oldest records and snapshots beyond
+   * the limits
+   */
+  record(job: BuildJob): Promise<BuildRecord> {
+    const record = toBuildRecord(job);
+
+    return this.enqueueWrite(job.siteId, async () => {
+      const records = (await this.list(job.siteId))
+        .filter(existing => existing.id !== record.id);
+
+      records.unshift(record);
+
+      const kept = records.slice(0, MAX_RECORDS_PER_SITE);
+      const expired = [
+        ...records.slice(MAX_RECORDS_PER_SITE),
+        ...kept.filter(existing => existing.snapshot).slice(this.snapshotLimit)
+      ];
+
+      for (const old of expired) {
+        await fs.remove(this.getSnapshotDir(job.siteId, old.id));
+        old.snapshot = false;
+      }
+
+      await this.write(job.siteId, kept);
+    }).then(() => record);
+  }
+
+  /**
+   * Copy a build's output into the history
+   */
+  async saveSnapshot(siteId: string, buildId: string, sourceDir: string): Promise<void> {
+    const snapshotDir = this.getSnapshotDir(siteId, buildId);
+
+    await fs.remove(snapshotDir);
+    await fs.copy(sourceDir, snapshotDir);
+  }
+
+  /**
+   * Replace `targetDir` with a stored snapshot. The copy is made next to the
+   * target first so the swap itself is just two renames.
+   */
+  async restoreSnapshot(siteId: string, buildId: string, targetDir: string): Promise<void> {
+    const snapshotDir = this.getSnapshotDir(siteId, buildId);
+    if (!(await fs.pathExists(snapshotDir))) {
+      throw new Error('Build snapshot not available');
+    }
+
+    const stagingDir = `${targetDir}.restore`;
+    const previousDir = `${targetDir}.previous`;
+
+    await fs.remove(stagingDir);
+    await fs.copy(snapshotDir, stagingDir);
+
+    await fs.remove(previousDir);
+    if (await fs.pathExists(targetDir)) {
+      await fs.move(targetDir, previousDir);
+    }
+    await fs.move(stagingDir, targetDir);
+    await fs.remove(previousDir);
+  }
+
+  /**
+   * Stored records of a site, newest first
+   */
+  async list(siteId: string): Promise<BuildRecord[]> {
+    const filePath = this.getFilePath(siteId);
+    if (!(await fs.pathExists(filePath))) {
+      return [];
+    }
+
+    const data = await fs.readJson(filePath);
+    return data.builds || [];
+  }
+
+  /**
+   * Get a stored record by build ID
+   */
+  async get(siteId: string, buildId: string): Promise<BuildRecord | undefined> {
+    const records = await this.list(siteId);
+    return records.find(record => record.id === buildId);
+  }
+
+  /**
+   * Forget everything stored for a site
+   */
+  removeSite(siteId: string): Promise<void> {
+    return this.enqueueWrite(siteId, () => fs.remove(this.getSiteDir(siteId)));
+  }
+
+  /**
+   * Directory holding a site's build data
+   */
+  getSiteDir(siteId: string): string {
+    return path.join(this.baseDir, siteId);
+  }
+
+  /**
+   * Directory holding the output of one build
+   */
+  getSnapshotDir(siteId: string, buildId: string): string {
+    return path.join(this.getSiteDir(siteId), buildId);
+  }
+
+  private getFilePath(siteId: string): string {
+    return path.join(this.getSiteDir(siteId), 'builds.json');
+  }
+
+  private async write(siteId: string, records: BuildRecord[]): Promise<void> {
+    const filePath = this.getFilePath(siteId);
+    const tmpPath = `${filePath}.tmp`;
+
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJson(tmpPath, { builds: records }, { spaces: 2 });
+    await fs.move(tmpPath, filePath, { overwrite: true });
+  }
+
+  /**
+   * Serialize writes per site so concurrent updates don't lose records
+   */
+  private enqueueWrite(siteId: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(siteId) || Promise.resolve();
+    const next = previous.then(write, write);
+
+    this.writeQueues.set(siteId, next);
+    next.finally(() => {
+      if (this.writeQueues.get(siteId) === next) {
+        this.writeQueues.delete(siteId);
+      }
+    }).catch(() => undefined);
+
+    return next;
+  }
+}
+
+export default BuildHistory;
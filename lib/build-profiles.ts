@@ -0,0 +1,136 @@
+export interface BuildProfile {
+  name: string;
+  // JEKYLL_ENV for the build
+  jekyllEnv: string;
+  // Config files in merge order; extra files that don't exist are skipped
+  config: string[];
+  drafts: boolean;
+  future: boolean;
+  unpublished: boolean;
+  baseurl?: string;
+  // Output folder inside the site, `_site` or `_site-<suffix>`
+  destination: string;
+}
+
+export const DEFAULT_BUILD_PROFILES: Record<string, BuildProfile> = {
+  development: {
+    name: 'development',
+    jekyllEnv: 'development',
+    config: ['_config.yml', '_config.dev.yml'],
+    drafts: true,
+    future: true,
+    unpublished: false,
+    destination: '_site'
+  },
+  staging: {
+    name: 'staging',
+    jekyllEnv: 'staging',
+    config: ['_config.yml', '_config.staging.yml'],
+    drafts: false,
+    future: false,
+    unpublished: false,
+    destination: '_site-staging'
+  },
+  production: {
+    name: 'production',
+    jekyllEnv: 'production',
+    config: ['_config.yml', '_config.prod.yml'],
+    drafts: false,
+    future: false,
+    unpublished: false,
+    destination: '_site-production'
+  }
+};
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+// Output must stay inside the site and be ignored by Jekyll (leading underscore)
+const DESTINATION_PATTERN = /^_site(-[a-z0-9-]+)?$/;
+
+const CONFIG_FILE_PATTERN = /^[\w.-]+\.(ya?ml|toml)$/;
+
+/**
+ * Name of the profile used when a build doesn't ask for one
+ */
+export function getDefaultProfileName(): string {
+  return process.env.DEFAULT_BUILD_PROFILE || 'development';
+}
+
+/**
+ * Built-in profiles with the site's own profiles layered on top
+ */
+export function resolveBuildProfiles(overrides: Record<string, Partial<BuildProfile>> = {}): Record<string, BuildProfile> {
+  const profiles: Record<string, BuildProfile> = { ...DEFAULT_BUILD_PROFILES };
+
+  for (const [name, override] of Object.entries(overrides)) {
+    const base = DEFAULT_BUILD_PROFILES[name] || DEFAULT_BUILD_PROFILES.production;
+    profiles[name] = {
+      ...base,
+      destination: DEFAULT_BUILD_PROFILES[name] ? base.destination : `_site-${name}`,
+      ...override,
+      name
+    };
+  }
+
+  return profiles;
+}
+
+/**
+ * Check a profile name and body sent by a client. Returns the problems found.
+ */
+export function validateBuildProfile(name: string, profile: any): string[] {
+  const errors: string[] = [];
+
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    errors.push('Profile name must be lowercase letters, digits or dashes (max 32 characters)');
+  }
+
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    errors.push('Profile must be an object');
+    return errors;
+  }
+
+  if (profile.jekyllEnv !== undefined && (typeof profile.jekyllEnv !== 'string' || !/^\w+$/.test(profile.jekyllEnv))) {
+    errors.push('jekyllEnv must be a single word');
+  }
+
+  if (profile.config !== undefined) {
+    if (!Array.isArray(profile.config) || profile.config.length === 0 ||
+        !profile.config.every((file: any) => typeof file === 'string' && CONFIG_FILE_PATTERN.test(file))) {
+      errors.push('config must be a non-empty list of config file names in the site root');
+    }
+  }
+
+  for (const flag of ['drafts', 'future', 'unpublished']) {
+    if (profile[flag] !== undefined && typeof profile[flag] !== 'boolean') {
+      errors.push(`${flag} must be a boolean`);
+    }
+  }
+
+  if (profile.baseurl !== undefined && (typeof profile.baseurl !== 'string' || /\s/.test(profile.baseurl))) {
+    errors.push('baseurl must be a string without spaces');
+  }
+
+  if (profile.destination !== undefined &&
+      (typeof profile.destination !== 'string' || !DESTINATION_PATTERN.test(profile.destination))) {
+    errors.push('destination must be "_site" or "_site-<suffix>"');
+  }
+
+  return errors;
+}
+
+/**
+ * Keep only the fields a profile is made of
+ */
+export function pickBuildProfileFields(profile: any): Partial<BuildProfile> {
+  const fields: Array<keyof BuildProfile> = ['jekyllEnv', 'config', 'drafts', 'future', 'unpublished', 'baseurl', 'destination'];
+  const picked: any = {};
+
+  for (const field of fields) {
+    if (profile[field] !== undefined) {
+      picked[field] = profile[field];
+    }
+  }
+
+  return picked;
+}
@@ -0,0 +1,241 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import type { BuildResult } from './jekyll-manager';
+
+export type BuildJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface EnqueueOptions {
+  triggeredBy?: string;
+  profile?: string;
+  force?: boolean;
+  incremental?: boolean;
+}
+
+export interface BuildJob {
+  id: string;
+  siteId: string;
+  status: BuildJobStatus;
+  // Who or what asked for the build (API caller, site update, preview, ...)
+  triggeredBy?: string;
+  // Build profile name (development, production, ...)
+  profile?: string;
+  // Build even when the sources did not change
+  force?: boolean;
+  incremental?: boolean;
+  queuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  waitTime?: number;
+  duration?: number;
+  result?: BuildResult;
+  error?: string;
+}
+
+// Finished jobs kept in memory per site
+const MAX_JOBS_PER_SITE = 50;
+
+/**
+ * FIFO build queue with a global concurrency limit.
+ *
+ * A site never builds twice at the same time and has at most one job
+ * waiting; repeated requests get that waiting job back instead of a new one.
+ */
+class BuildQueue extends EventEmitter {
+  private jobs: Map<string, BuildJob> = new Map();
+  private pending: BuildJob[] = [];
+  private running: Map<string, BuildJob> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private waiters: Map<string, Array<(job: BuildJob) => void>> = new Map();
+  private execute: (job: BuildJob, signal: AbortSignal) => Promise<BuildResult>;
+  private concurrency: number;
+
+  constructor(execute: (job: BuildJob, signal: AbortSignal) => Promise<BuildResult>, concurrency: number = 2) {
+    super();
+    this.execute = execute;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * Queue a build for a site, or return the one already waiting with the
+   * same profile. A waiting job picks up the strictest options of everyone
+   * sharing it (forced, full).
+   */
+  enqueue(siteId: string, options: EnqueueOptions = {}): BuildJob {
+    const waiting = this.pending.find(job => job.siteId === siteId && job.profile === options.profile);
+    if (waiting) {
+      waiting.force = waiting.force || options.force;
+      waiting.incremental = waiting.incremental && options.incremental;
+      return waiting;
+    }
+
+    const job: BuildJob = {
+      id: uuidv4(),
+      siteId,
+      status: 'queued',
+      triggeredBy: options.triggeredBy,
+      profile: options.profile,
+      force: options.force,
+      incremental: options.incremental,
+      queuedAt: new Date()
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job);
+    this.prune(siteId);
+    this.emit('jobUpdated', job);
+
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Cancel a job. Waiting jobs are dropped, running ones get their abort
+   * signal fired and finish as `cancelled` once the build has stopped.
+   * Returns false if the job already finished.
+   */
+  cancel(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return false;
+    }
+
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter(pending => pending.id !== jobId);
+      job.status = 'cancelled';
+      job.finishedAt = new Date();
+      this.finish(job);
+      return true;
+    }
+
+    if (job.status === 'running') {
+      this.controllers.get(jobId)?.abort();
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Get job by ID
+   */
+  getJob(jobId: string): BuildJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Get all known jobs for a site, newest first
+   */
+  getJobsForSite(siteId: string): BuildJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => job.siteId === siteId)
+      .sort((a, b) => b.queuedAt.getTime() - a.queuedAt.getTime());
+  }
+
+  /**
+   * Queued or running jobs of a site
+   */
+  getActiveJobs(siteId: string): BuildJob[] {
+    return this.getJobsForSite(siteId)
+      .filter(job => job.status === 'queued' || job.status === 'running');
+  }
+
+  /**
+   * Resolve once the job has finished
+   */
+  wait(jobId: string): Promise<BuildJob> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return Promise.reject(new Error('Build job not found'));
+    }
+
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return Promise.resolve(job);
+    }
+
+    return new Promise(resolve => {
+      const waiters = this.waiters.get(jobId) || [];
+      waiters.push(resolve);
+      this.waiters.set(jobId, waiters);
+    });
+  }
+
+  /**
+   * Queue statistics
+   */
+  getStats(): { queued: number; running: number; concurrency: number } {
+    return {
+      queued: this.pending.length,
+      running: this.running.size,
+      concurrency: this.concurrency
+    };
+  }
+
+  /**
+   * Start as many waiting jobs as the concurrency limit allows
+   */
+  private pump(): void {
+    while (this.running.size < this.concurrency) {
+      const index = this.pending.findIndex(job => !this.running.has(job.siteId));
+      if (index === -1) {
+        return;
+      }
+
+      const [job] = this.pending.splice(index, 1);
+      this.run(job);
+    }
+  }
+
+  private async run(job: BuildJob): Promise<void> {
+    const controller = new AbortController();
+
+    job.status = 'running';
+    job.startedAt = new Date();
+    job.waitTime = job.startedAt.getTime() - job.queuedAt.getTime();
+    this.running.set(job.siteId, job);
+    this.controllers.set(job.id, controller);
+    this.emit('jobUpdated', job);
+
+    try {
+      job.result = await this.execute(job, controller.signal);
+      job.status = job.result.success ? 'succeeded' : 'failed';
+      job.error = job.result.error;
+    } catch (error: any) {
+      job.status = controller.signal.aborted ? 'cancelled' : 'failed';
+      job.error = controller.signal.aborted ? 'Build cancelled' : error.message;
+    }
+
+    job.finishedAt = new Date();
+    job.duration = job.finishedAt.getTime() - job.startedAt.getTime();
+    this.running.delete(job.siteId);
+    this.controllers.delete(job.id);
+    this.finish(job);
+
+    this.pump();
+  }
+
+  /**
+   * Announce a finished job and release everyone waiting on it
+   */
+  private finish(job: BuildJob): void {
+    this.emit('jobUpdated', job);
+    if (job.status === 'cancelled') {
+      this.emit('jobCancelled', job);
+    }
+
+    const waiters = this.waiters.get(job.id) || [];
+    this.waiters.delete(job.id);
+    waiters.forEach(resolve => resolve(job));
+  }
+
+  /**
+   * Drop the oldest finished jobs of a site beyond the retention limit
+   */
+  private prune(siteId: string): void {
+    const finished = this.getJobsForSite(siteId)
+      .filter(job => job.status !== 'queued' && job.status !== 'running');
+
+    finished.slice(MAX_JOBS_PER_SITE).forEach(job => this.jobs.delete(job.id));
+  }
+}
+
+export default BuildQueue;
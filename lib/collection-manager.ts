@@ -0,0 +1,339 @@
+import path from 'path';
+import yaml from 'yaml';
+import JekyllManager from './jekyll-manager';
+import { FrontMatterError, parseContent, serializeContent } from './front-matter';
+import { formatETag, hashContent } from './file-etag';
+import {
+  COLLECTION_ITEM_EXTENSIONS,
+  getCollectionFolder,
+  getConfiguredCollections,
+  isReservedCollectionName,
+  isValidCollectionName,
+  removeCollectionFromConfig,
+  setCollectionInConfig
+} from './collections';
+import { slugify } from './slugify';
+
+export interface CollectionInfo {
+  name: string;
+  folder: string;
+  // Settings from _config.yml (output, permalink, sort_by, ...)
+  settings: Record<string, any>;
+  count: number;
+}
+
+export interface CollectionItem {
+  // File name without extension
+  id: string;
+  path: string;
+  title: string;
+  // All front matter, custom fields like price or image included
+  frontMatter: Record<string, any>;
+  body: string;
+  // Present when the front matter couldn't be parsed
+  errors?: FrontMatterError[];
+}
+
+export interface CollectionItemInput {
+  title?: string;
+  slug?: string;
+  body?: string;
+  // On update it replaces the item's front matter
+  frontMatter?: Record<string, any>;
+}
+
+/**
+ * Check a collection item body sent by a client. Returns the problems found.
+ */
+export function validateCollectionItemInput(input: any): string[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return ['Item must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  for (const field of ['title', 'slug', 'body']) {
+    if (input[field] !== undefined && typeof input[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (input.frontMatter !== undefined &&
+      (!input.frontMatter || typeof input.frontMatter !== 'object' || Array.isArray(input.frontMatter))) {
+    errors.push('frontMatter must be an object');
+  }
+
+  return errors;
+}
+
+/**
+ * Collections of a site: their declaration in _config.yml and the documents
+ * in their `_<name>` folders. Files go through the JekyllManager so the
+ * usual file events fire.
+ */
+class CollectionManager {
+  private jekyllManager: JekyllManager;
+
+  constructor(jekyllManager: JekyllManager) {
+    this.jekyllManager = jekyllManager;
+  }
+
+  async listCollections(siteId: string): Promise<CollectionInfo[]> {
+    const config = await this.jekyllManager.readSiteConfig(siteId);
+    const collections = getConfiguredCollections(config);
+    const result: CollectionInfo[] = [];
+
+    for (const [name, settings] of Object.entries(collections)) {
+      // Settings for _posts and the like, not a folder this API may touch
+      if (isReservedCollectionName(name)) {
+        continue;
+      }
+
+      const folder = getCollectionFolder(config, name);
+      result.push({ name, folder, settings, count: (await this.listItemFiles(siteId, folder)).length });
+    }
+
+    return result;
+  }
+
+  async getCollection(siteId: string, name: string): Promise<CollectionInfo | undefined> {
+    return (await this.listCollections(siteId)).find(collection => collection.name === name);
+  }
+
+  /**
+   * Declare a collection in _config.yml, or merge new settings into it, and
+   * create its folder
+   */
+  async saveCollection(siteId: string, name: string, settings: Record<string, any> = {}): Promise<CollectionInfo> {
+    if (!isValidCollectionName(name)) {
+      throw new Error('Invalid collection name');
+    }
+
+    await this.updateConfig(siteId, document => setCollectionInConfig(document, name, settings));
+
+    const config = await this.jekyllManager.readSiteConfig(siteId);
+    const folder = getCollectionFolder(config, name);
+    try {
+      await this.jekyllManager.createDirectory(siteId, folder);
+    } catch (error: any) {
+      if (error.message !== 'Path already exists') {
+        throw error;
+      }
+    }
+
+    return (await this.getCollection(siteId, name)) as CollectionInfo;
+  }
+
+  /**
+   * Remove a collection from _config.yml and delete its folder. A folder
+   * that still holds anything, items or other files, is only deleted with
+   * `recursive`. The config goes first, so a failed config write leaves the
+   * content in place.
+   */
+  async deleteCollection(siteId: string, name: string, options: { recursive?: boolean } = {}): Promise<void> {
+    const collection = await this.getCollection(siteId, name);
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+
+    if (!options.recursive && (await this.listFolder(siteId, collection.folder)).length > 0) {
+      throw new Error('Collection is not empty');
+    }
+
+    await this.updateConfig(siteId, document => removeCollectionFromConfig(document, name));
+
+    try {
+      await this.jekyllManager.deleteFile(siteId, collection.folder, { recursive: !!options.recursive });
+    } catch (error: any) {
+      if (error.message === 'Directory is not empty') {
+        throw new Error('Collection is not empty');
+      }
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async listItems(siteId: string, name: string): Promise<CollectionItem[]> {
+    const collection = await this.requireCollection(siteId, name);
+    const items: CollectionItem[] = [];
+
+    for (const fileName of await this.listItemFiles(siteId, collection.folder)) {
+      items.push(await this.readItem(siteId, `${collection.folder}/${fileName}`));
+    }
+
+    return items;
+  }
+
+  async getItem(siteId: string, name: string, itemId: string): Promise<CollectionItem | undefined> {
+    const collection = await this.requireCollection(siteId, name);
+    const filePath = await this.findItem(siteId, collection.folder, itemId);
+    return filePath ? this.readItem(siteId, filePath) : undefined;
+  }
+
+  async createItem(siteId: string, name: string, input: CollectionItemInput): Promise<CollectionItem> {
+    const collection = await this.requireCollection(siteId, name);
+
+    const slug = slugify(input.slug || input.title || '');
+    if (!slug) {
+      throw new Error('Title or slug must contain letters or digits');
+    }
+
+    const filePath = `${collection.folder}/${slug}.md`;
+    if (await this.findItem(siteId, collection.folder, slug)) {
+      throw new Error('Item already exists');
+    }
+
+    const frontMatter: Record<string, any> = {
+      ...(input.title ? { title: input.title } : {}),
+      ...(input.frontMatter || {})
+    };
+
+    const { source } = serializeContent(frontMatter, `\n${input.body || ''}`);
+    await this.jekyllManager.updateFile(siteId, filePath, source as string);
+
+    return this.readItem(siteId, filePath);
+  }
+
+  /**
+   * Change an item's front matter and/or body; a new `slug` renames it
+   */
+  async updateItem(
+    siteId: string,
+    name: string,
+    itemId: string,
+    input: CollectionItemInput,
+    options: { ifMatch?: string } = {}
+  ): Promise<CollectionItem> {
+    const collection = await this.requireCollection(siteId, name);
+    const currentPath = await this.findItem(siteId, collection.folder, itemId);
+    if (!currentPath) {
+      throw new Error('Item not found');
+    }
+
+    const item = await this.readItem(siteId, currentPath);
+    if (item.errors) {
+      throw new Error('Item has malformed front matter');
+    }
+
+    const slug = input.slug !== undefined ? slugify(input.slug) : item.id;
+    if (!slug) {
+      throw new Error('Title or slug must contain letters or digits');
+    }
+
+    const frontMatter: Record<string, any> = { ...(input.frontMatter || item.frontMatter) };
+    if (input.title !== undefined) {
+      frontMatter.title = input.title;
+    }
+
+    const original = await this.jekyllManager.readFile(siteId, currentPath);
+    const { source } = serializeContent(frontMatter, input.body !== undefined ? input.body : item.body, original);
+    const filePath = `${collection.folder}/${slug}${path.extname(currentPath)}`;
+
+    if (filePath === currentPath) {
+      await this.jekyllManager.updateFile(siteId, filePath, source as string, options);
+    } else {
+      await this.jekyllManager.applyFileBatch(siteId, [
+        { op: 'write', path: currentPath, content: source as string, ifMatch: options.ifMatch },
+        { op: 'move', from: currentPath, to: filePath }
+      ]);
+    }
+
+    return this.readItem(siteId, filePath);
+  }
+
+  async deleteItem(siteId: string, name: string, itemId: string, options: { ifMatch?: string } = {}): Promise<void> {
+    const collection = await this.requireCollection(siteId, name);
+    const filePath = await this.findItem(siteId, collection.folder, itemId);
+    if (!filePath) {
+      throw new Error('Item not found');
+    }
+
+    await this.jekyllManager.deleteFile(siteId, filePath, options);
+  }
+
+  private async requireCollection(siteId: string, name: string): Promise<CollectionInfo> {
+    const collection = await this.getCollection(siteId, name);
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+    return collection;
+  }
+
+  /**
+   * Rewrite _config.yml through its YAML document, keeping comments. Fails
+   * with 'File has changed' if someone else wrote it in the meantime.
+   */
+  private async updateConfig(siteId: string, change: (document: yaml.Document) => void): Promise<void> {
+    let source = '';
+    let currentHash: string | null = null;
+    try {
+      source = await this.jekyllManager.readFile(siteId, '_config.yml');
+      currentHash = hashContent(source);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const document = yaml.parseDocument(source);
+    if (document.errors.length > 0) {
+      throw new Error('Site config has errors');
+    }
+
+    change(document);
+    await this.jekyllManager.updateFile(siteId, '_config.yml', document.toString(), {
+      ifMatch: currentHash ? formatETag(currentHash) : undefined
+    });
+  }
+
+  private async listItemFiles(siteId: string, folder: string): Promise<string[]> {
+    return (await this.listFolder(siteId, folder))
+      .filter(file => file.type === 'file' && COLLECTION_ITEM_EXTENSIONS.includes(path.extname(file.name).toLowerCase()))
+      .map(file => file.name)
+      .sort();
+  }
+
+  /**
+   * Everything in a collection folder, nothing when it doesn't exist
+   */
+  private async listFolder(siteId: string, folder: string): Promise<any[]> {
+    try {
+      return await this.jekyllManager.listFiles(siteId, folder);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async findItem(siteId: string, folder: string, itemId: string): Promise<string | undefined> {
+    // Ids are plain file names, never paths
+    if (!itemId || itemId !== path.basename(itemId) || itemId.startsWith('.')) {
+      return undefined;
+    }
+
+    const fileName = (await this.listItemFiles(siteId, folder))
+      .find(file => path.basename(file, path.extname(file)) === itemId);
+    return fileName && `${folder}/${fileName}`;
+  }
+
+  private async readItem(siteId: string, filePath: string): Promise<CollectionItem> {
+    const source = await this.jekyllManager.readFile(siteId, filePath);
+    const { frontMatter, body, errors } = parseContent(source);
+    const id = path.basename(filePath, path.extname(filePath));
+    const data = frontMatter || {};
+
+    return {
+      id,
+      path: filePath,
+      title: typeof data.title === 'string' ? data.title : id.replace(/-/g, ' '),
+      frontMatter: data,
+      body,
+      ...(errors.length > 0 ? { errors } : {})
+    };
+  }
+}
+
+export default CollectionManager;
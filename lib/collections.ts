@@ -0,0 +1,110 @@
+import path from 'path';
+import { Document, YAMLMap, isMap, isSeq } from 'yaml';
+import { isSitePathTarget } from './file-rules';
+
+// Names Jekyll uses for its own folders or the built-in posts collection
+const RESERVED_COLLECTION_NAMES = ['posts', 'drafts', 'data', 'layouts', 'includes', 'sass', 'plugins', 'site'];
+
+const COLLECTION_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,49}$/;
+
+// Item files the collections API reads and writes
+export const COLLECTION_ITEM_EXTENSIONS = ['.md', '.markdown', '.html'];
+
+export function isValidCollectionName(name: string): boolean {
+  return COLLECTION_NAME_PATTERN.test(name) && !isReservedCollectionName(name);
+}
+
+/**
+ * Name of a Jekyll folder (`_posts`, `_data`, ...) rather than a collection
+ * of our own. `collections: {posts: ...}` is valid Jekyll, but those folders
+ * are not managed through the collections API.
+ */
+export function isReservedCollectionName(name: string): boolean {
+  return RESERVED_COLLECTION_NAMES.includes(name);
+}
+
+/**
+ * Collections declared in a parsed _config.yml, by name. Jekyll takes both
+ * a list of names and a map of name to settings.
+ */
+export function getConfiguredCollections(config: Record<string, any>): Record<string, Record<string, any>> {
+  const collections = config.collections;
+
+  if (Array.isArray(collections)) {
+    return Object.fromEntries(
+      collections.filter(name => typeof name === 'string').map(name => [name, {}])
+    );
+  }
+
+  if (collections && typeof collections === 'object') {
+    return Object.fromEntries(
+      Object.entries(collections).map(([name, settings]) => [
+        name,
+        settings && typeof settings === 'object' && !Array.isArray(settings) ? settings as Record<string, any> : {}
+      ])
+    );
+  }
+
+  return {};
+}
+
+/**
+ * `collections_dir` from a parsed _config.yml, or '' (the site root) when
+ * it's unset or points outside the site
+ */
+export function getCollectionsDir(config: Record<string, any>): string {
+  const collectionsDir = typeof config.collections_dir === 'string' ? config.collections_dir.replace(/^\/+|\/+$/g, '') : '';
+  return collectionsDir && isSitePathTarget(collectionsDir) ? collectionsDir : '';
+}
+
+/**
+ * Folder of a collection's documents, `_<name>` inside `collections_dir`
+ */
+export function getCollectionFolder(config: Record<string, any>, name: string): string {
+  return path.posix.join(getCollectionsDir(config), `_${name}`);
+}
+
+/**
+ * Declare (or update) a collection in a _config.yml document. Settings are
+ * merged into what is there; a list of names becomes a map first.
+ */
+export function setCollectionInConfig(document: Document, name: string, settings: Record<string, any>): void {
+  const current = document.get('collections', true);
+
+  if (isSeq(current)) {
+    const names = (current.toJSON() as any[]).filter(item => typeof item === 'string');
+    document.set('collections', document.createNode(Object.fromEntries(names.map(item => [item, {}]))));
+  } else if (!isMap(current)) {
+    document.set('collections', document.createNode({}));
+  }
+
+  const collections = document.get('collections', true) as YAMLMap;
+  if (!isMap(collections.get(name, true))) {
+    collections.set(name, document.createNode({}));
+  }
+
+  for (const [key, value] of Object.entries(settings)) {
+    document.setIn(['collections', name, key], value);
+  }
+}
+
+/**
+ * Remove a collection from a _config.yml document
+ */
+export function removeCollectionFromConfig(document: Document, name: string): void {
+  const current = document.get('collections', true);
+
+  if (isSeq(current)) {
+    const index = current.items.findIndex((item: any) => (item && item.value !== undefined ? item.value : item) === name);
+    if (index !== -1) {
+      current.items.splice(index, 1);
+    }
+  } else if (isMap(current)) {
+    current.delete(name);
+  }
+
+  const remaining = document.get('collections', true);
+  if ((isSeq(remaining) || isMap(remaining)) && remaining.items.length === 0) {
+    document.delete('collections');
+  }
+}
@@ -0,0 +1,277 @@
+import path from 'path';
+import yaml, { Document } from 'yaml';
+import { syncNode } from './yaml-sync';
+
+export type DataFormat = 'yaml' | 'json' | 'csv' | 'tsv';
+
+// Extensions Jekyll reads from _data, in the order a bare name is looked up
+export const DATA_EXTENSIONS = ['.yml', '.yaml', '.json', '.csv', '.tsv'];
+
+// `team.schema.json` next to `team.yml` holds the JSON Schema for it
+export const DATA_SCHEMA_SUFFIX = '.schema.json';
+
+export interface DataFileError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+export function getDataFormat(filePath: string): DataFormat | undefined {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.yml':
+    case '.yaml':
+      return 'yaml';
+    case '.json':
+      return 'json';
+    case '.csv':
+      return 'csv';
+    case '.tsv':
+      return 'tsv';
+    default:
+      return undefined;
+  }
+}
+
+export function isDataSchemaFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(DATA_SCHEMA_SUFFIX);
+}
+
+/**
+ * Line and column (1-based) of a character offset
+ */
+function positionAt(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Split CSV/TSV text into rows of cells. Quoted cells may hold delimiters,
+ * line breaks and doubled quotes.
+ */
+function parseDelimited(source: string, delimiter: string): { rows: string[][]; errors: DataFileError[] } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let quoteStart = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+      quoteStart = i;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    return { rows: [], errors: [{ message: 'Quoted value is never closed', ...positionAt(source, quoteStart) }] };
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no record
+  return { rows: rows.filter(cells => cells.length > 1 || cells[0] !== ''), errors: [] };
+}
+
+/**
+ * Rows as Jekyll sees them: one object per line keyed by the header row,
+ * missing cells are null
+ */
+function parseTable(source: string, delimiter: string): { data?: any; errors: DataFileError[] } {
+  const { rows, errors } = parseDelimited(source.replace(/^\uFEFF/, ''), delimiter);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const [header = [], ...records] = rows;
+  const tableErrors: DataFileError[] = [];
+
+  header.forEach((name, index) => {
+    if (name.trim() === '') {
+      tableErrors.push({ message: `Column ${index + 1} has no name`, line: 1 });
+    } else if (header.indexOf(name) !== index) {
+      tableErrors.push({ message: `Column "${name}" appears more than once`, line: 1 });
+    }
+  });
+
+  records.forEach((cells, index) => {
+    if (cells.length > header.length) {
+      tableErrors.push({ message: `Row ${index + 1} has more values than there are columns` });
+    }
+  });
+
+  if (tableErrors.length > 0) {
+    return { errors: tableErrors };
+  }
+
+  const data = records.map(cells => {
+    const record: Record<string, string | null> = {};
+    header.forEach((name, index) => {
+      record[name] = index < cells.length ? cells[index] : null;
+    });
+    return record;
+  });
+
+  return { data, errors: [] };
+}
+
+/**
+ * Parse a data file into plain JSON values
+ */
+export function parseDataFile(source: string, format: DataFormat): { data?: any; errors: DataFileError[] } {
+  if (format === 'csv' || format === 'tsv') {
+    return parseTable(source, format === 'csv' ? ',' : '\t');
+  }
+
+  if (format === 'json') {
+    try {
+      return { data: JSON.parse(source), errors: [] };
+    } catch (error: any) {
+      // Node doesn't always give the position; JSON is YAML, whose parser
+      // may still say where the problem is
+      const match = /position (\d+)/.exec(error.message);
+      const [yamlError] = match ? [] : yaml.parseDocument(source).errors;
+      const position = match
+        ? positionAt(source, Number(match[1]))
+        : yamlError?.linePos && { line: yamlError.linePos[0].line, column: yamlError.linePos[0].col };
+
+      return {
+        errors: [{ message: error.message, ...(position || {}) }]
+      };
+    }
+  }
+
+  const document = yaml.parseDocument(source);
+  if (document.errors.length > 0) {
+    return {
+      errors: document.errors.map(error => ({
+        message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+        line: error.linePos ? error.linePos[0].line : undefined,
+        column: error.linePos ? error.linePos[0].col : undefined
+      }))
+    };
+  }
+
+  return { data: document.toJS(), errors: [] };
+}
+
+/**
+ * Problems that keep `data` from being written in `format`. Data files hold
+ * a list or a mapping; tables hold a list of flat records.
+ */
+export function validateDataShape(data: any, format: DataFormat): string[] {
+  if (!Array.isArray(data) && !isPlainObject(data)) {
+    return ['Data must be a list or a mapping'];
+  }
+
+  if (format !== 'csv' && format !== 'tsv') {
+    return [];
+  }
+
+  if (!Array.isArray(data)) {
+    return [`${format.toUpperCase()} data must be a list of rows`];
+  }
+
+  const errors: string[] = [];
+  data.forEach((record, index) => {
+    if (!isPlainObject(record)) {
+      errors.push(`/${index}: row must be an object`);
+      return;
+    }
+    for (const [key, value] of Object.entries(record)) {
+      if (value !== null && typeof value === 'object') {
+        errors.push(`/${index}/${key}: must be text, a number or a boolean`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+function formatCell(value: any, delimiter: string): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Write records back as a table. Columns keep the order of the current
+ * header (`original`), new ones are added at the end.
+ */
+function serializeTable(data: Record<string, any>[], delimiter: string, original: string): string {
+  const { rows } = parseDelimited(original.replace(/^\uFEFF/, ''), delimiter);
+  const columns = (rows[0] || []).filter(name => data.some(record => name in record));
+
+  for (const record of data) {
+    for (const key of Object.keys(record)) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+
+  const newline = original.includes('\r\n') ? '\r\n' : '\n';
+  const lines = [columns, ...data.map(record => columns.map(name => record[name]))]
+    .map(cells => cells.map(cell => formatCell(cell, delimiter)).join(delimiter));
+
+  return columns.length === 0 ? '' : lines.join(newline) + newline;
+}
+
+/**
+ * Turn JSON data back into file text. YAML is merged into the current
+ * file (`original`) so comments and key order survive; JSON keeps its
+ * indentation.
+ */
+export function serializeDataFile(data: any, format: DataFormat, original: string = ''): { source?: string; errors: string[] } {
+  const errors = validateDataShape(data, format);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  if (format === 'csv' || format === 'tsv') {
+    return { source: serializeTable(data, format === 'csv' ? ',' : '\t', original), errors: [] };
+  }
+
+  if (format === 'json') {
+    const indent = /^[{[]\r?\n([ \t]+)/.exec(original);
+    return { source: `${JSON.stringify(data, null, indent ? indent[1] : 2)}\n`, errors: [] };
+  }
+
+  const current = yaml.parseDocument(original);
+  if (current.errors.length > 0 || current.contents === null) {
+    return { source: new Document(data).toString({ lineWidth: 0 }), errors: [] };
+  }
+
+  current.contents = syncNode(current, current.contents, data);
+  return { source: current.toString({ lineWidth: 0 }), errors: [] };
+}
@@ -0,0 +1,277 @@
+import path from 'path';
+import JekyllManager from './jekyll-manager';
+import { hashContent } from './file-etag';
+import { isSitePathTarget } from './file-rules';
+import {
+  DATA_EXTENSIONS,
+  DATA_SCHEMA_SUFFIX,
+  DataFileError,
+  DataFormat,
+  getDataFormat,
+  isDataSchemaFile,
+  parseDataFile,
+  serializeDataFile
+} from './data-files';
+import { validateJsonSchema, validateSchemaDefinition } from './json-schema';
+
+export interface DataFileSummary {
+  // Path below the data folder without extension, the key in `site.data`
+  // (`team` or `products/pricing`)
+  name: string;
+  path: string;
+  format: DataFormat;
+  hasSchema: boolean;
+}
+
+export interface DataFile extends DataFileSummary {
+  // Plain JSON whatever the format; CSV/TSV rows are objects of strings
+  data?: any;
+  schema?: Record<string, any>;
+  // Version of the file, the value behind its ETag
+  hash: string;
+  // Present when the file couldn't be parsed
+  errors?: DataFileError[];
+  // Present when the schema file isn't usable
+  schemaErrors?: string[];
+}
+
+const DATA_FORMATS: DataFormat[] = ['yaml', 'json', 'csv', 'tsv'];
+
+const FORMAT_EXTENSIONS: Record<DataFormat, string> = {
+  yaml: '.yml',
+  json: '.json',
+  csv: '.csv',
+  tsv: '.tsv'
+};
+
+/**
+ * Error with the list of problems that kept data from being written
+ */
+function invalid(message: string, errors: string[]): Error {
+  const error: any = new Error(message);
+  error.errors = errors;
+  return error;
+}
+
+/**
+ * Files in a site's data folder, read and written as JSON whatever their
+ * format. A `<name>.schema.json` next to a file is checked on every write.
+ */
+class DataManager {
+  private jekyllManager: JekyllManager;
+
+  constructor(jekyllManager: JekyllManager) {
+    this.jekyllManager = jekyllManager;
+  }
+
+  async listDataFiles(siteId: string): Promise<DataFileSummary[]> {
+    const dataDir = await this.getDataDir(siteId);
+    const files = await this.listFilesIn(siteId, dataDir);
+    const result: DataFileSummary[] = [];
+
+    for (const file of files) {
+      const format = getDataFormat(file);
+      if (!format || isDataSchemaFile(file)) {
+        continue;
+      }
+
+      const name = file.slice(0, -path.extname(file).length);
+      result.push({
+        name,
+        path: `${dataDir}/${file}`,
+        format,
+        hasSchema: files.includes(`${name}${DATA_SCHEMA_SUFFIX}`)
+      });
+    }
+
+    return result;
+  }
+
+  async getDataFile(siteId: string, name: string): Promise<DataFile | undefined> {
+    const dataDir = await this.getDataDir(siteId);
+    const filePath = await this.findDataFile(siteId, dataDir, name);
+    return filePath ? this.readDataFile(siteId, dataDir, filePath) : undefined;
+  }
+
+  /**
+   * Write data to a data file, creating it when needed. The format of an
+   * existing file is kept; a new one uses the extension in `name`, then
+   * `format`, then YAML.
+   */
+  async saveDataFile(
+    siteId: string,
+    name: string,
+    data: any,
+    options: { format?: DataFormat; ifMatch?: string } = {}
+  ): Promise<DataFile> {
+    if (options.format !== undefined && !DATA_FORMATS.includes(options.format)) {
+      throw new Error('Unsupported data format');
+    }
+
+    const dataDir = await this.getDataDir(siteId);
+    const existingPath = await this.findDataFile(siteId, dataDir, name);
+    const baseName = this.toBaseName(name);
+    const filePath = existingPath ||
+      `${dataDir}/${getDataFormat(name) ? name : `${name}${FORMAT_EXTENSIONS[options.format || 'yaml']}`}`;
+    const format = getDataFormat(filePath) as DataFormat;
+
+    const schema = await this.readSchema(siteId, `${dataDir}/${baseName}${DATA_SCHEMA_SUFFIX}`);
+    if (schema) {
+      const errors = validateJsonSchema(schema, data);
+      if (errors.length > 0) {
+        throw invalid('Data does not match its schema', errors);
+      }
+    }
+
+    const original = existingPath ? await this.jekyllManager.readFile(siteId, existingPath) : '';
+    const { source, errors } = serializeDataFile(data, format, original);
+    if (source === undefined) {
+      throw invalid('Invalid data', errors);
+    }
+
+    await this.jekyllManager.updateFile(siteId, filePath, source, { ifMatch: options.ifMatch });
+
+    return this.readDataFile(siteId, dataDir, filePath);
+  }
+
+  async deleteDataFile(siteId: string, name: string, options: { ifMatch?: string } = {}): Promise<void> {
+    const dataDir = await this.getDataDir(siteId);
+    const filePath = await this.findDataFile(siteId, dataDir, name);
+    if (!filePath) {
+      throw new Error('Data file not found');
+    }
+
+    await this.jekyllManager.deleteFile(siteId, filePath, options);
+  }
+
+  /**
+   * `data_dir` from _config.yml, `_data` by default
+   */
+  private async getDataDir(siteId: string): Promise<string> {
+    const config = await this.jekyllManager.readSiteConfig(siteId);
+    const dataDir = typeof config.data_dir === 'string' ? config.data_dir.replace(/^\/+|\/+$/g, '') : '';
+    return dataDir && isSitePathTarget(dataDir) ? dataDir : '_data';
+  }
+
+  /**
+   * Name without a data file extension, after checking it stays inside the
+   * data folder
+   */
+  private toBaseName(name: string): string {
+    const segments = (name || '').split('/');
+    if (segments.some(segment => !segment || segment.startsWith('.') || segment.includes('\\')) || isDataSchemaFile(name)) {
+      throw new Error('Invalid data file name');
+    }
+
+    return getDataFormat(name) ? name.slice(0, -path.extname(name).length) : name;
+  }
+
+  /**
+   * Path of the file behind a name. A bare name is looked up with each data
+   * extension in turn, like Jekyll does.
+   */
+  private async findDataFile(siteId: string, dataDir: string, name: string): Promise<string | undefined> {
+    const baseName = this.toBaseName(name);
+    const candidates = getDataFormat(name) ? [name] : DATA_EXTENSIONS.map(extension => `${baseName}${extension}`);
+
+    for (const candidate of candidates) {
+      try {
+        const stats = await this.jekyllManager.statFile(siteId, `${dataDir}/${candidate}`);
+        if (stats.isFile()) {
+          return `${dataDir}/${candidate}`;
+        }
+      } catch (error: any) {
+        if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') {
+          throw error;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private async readDataFile(siteId: string, dataDir: string, filePath: string): Promise<DataFile> {
+    const source = await this.jekyllManager.readFile(siteId, filePath);
+    const format = getDataFormat(filePath) as DataFormat;
+    const name = filePath.slice(dataDir.length + 1, -path.extname(filePath).length);
+    const { data, errors } = parseDataFile(source, format);
+
+    let schema: Record<string, any> | undefined;
+    let schemaErrors: string[] | undefined;
+    try {
+      schema = await this.readSchema(siteId, `${dataDir}/${name}${DATA_SCHEMA_SUFFIX}`);
+    } catch (error: any) {
+      schemaErrors = error.errors || [error.message];
+    }
+
+    return {
+      name,
+      path: filePath,
+      format,
+      hasSchema: schema !== undefined || schemaErrors !== undefined,
+      ...(errors.length > 0 ? { errors } : { data }),
+      ...(schema !== undefined ? { schema } : {}),
+      ...(schemaErrors ? { schemaErrors } : {}),
+      hash: hashContent(source)
+    };
+  }
+
+  /**
+   * JSON Schema stored next to a data file, undefined when there is none
+   */
+  private async readSchema(siteId: string, schemaPath: string): Promise<Record<string, any> | undefined> {
+    let source: string;
+    try {
+      source = await this.jekyllManager.readFile(siteId, schemaPath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let schema: any;
+    try {
+      schema = JSON.parse(source);
+    } catch (error: any) {
+      throw invalid('Data schema is invalid', [`${path.basename(schemaPath)}: ${error.message}`]);
+    }
+
+    const errors = validateSchemaDefinition(schema);
+    if (errors.length > 0) {
+      throw invalid('Data schema is invalid', errors);
+    }
+
+    return schema;
+  }
+
+  private async listFilesIn(siteId: string, folder: string, prefix: string = ''): Promise<string[]> {
+    let entries: any[];
+    try {
+      entries = await this.jekyllManager.listFiles(siteId, prefix ? `${folder}/${prefix}` : folder);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.type === 'directory') {
+        files.push(...await this.listFilesIn(siteId, folder, relativePath));
+      } else {
+        files.push(relativePath);
+      }
+    }
+
+    return files;
+  }
+}
+
+export default DataManager;
@@ -0,0 +1,84 @@
+import { isCriticalFile, isFileExtensionAllowed, isSitePathTarget } from './file-rules';
+
+export const MAX_BATCH_OPERATIONS = 100;
+
+export type FileOperation =
+  | { op: 'write'; path: string; content: string; ifMatch?: string }
+  | { op: 'delete'; path: string; recursive?: boolean; ifMatch?: string }
+  | { op: 'move'; from: string; to: string; overwrite?: boolean };
+
+export interface FileChange {
+  op: FileOperation['op'];
+  path: string;
+  // Old location for moves
+  from?: string;
+  // Content hash after a write
+  hash?: string;
+  type?: 'file' | 'directory';
+}
+
+/**
+ * Check the shape and paths of a batch before anything is touched. Returns
+ * the problems found, each prefixed with the index of its operation.
+ */
+export function validateFileOperations(operations: any): string[] {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return ['operations must be a non-empty list'];
+  }
+
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    return [`A batch can hold at most ${MAX_BATCH_OPERATIONS} operations`];
+  }
+
+  const errors: string[] = [];
+
+  operations.forEach((operation: any, index: number) => {
+    const fail = (message: string) => errors.push(`operations[${index}]: ${message}`);
+
+    if (!operation || typeof operation !== 'object') {
+      return fail('must be an object');
+    }
+
+    if (operation.ifMatch !== undefined && typeof operation.ifMatch !== 'string') {
+      fail('ifMatch must be a string');
+    }
+
+    switch (operation.op) {
+      case 'write':
+        if (typeof operation.path !== 'string' || !isSitePathTarget(operation.path)) {
+          return fail('Invalid file path');
+        }
+        if (!isFileExtensionAllowed(operation.path)) {
+          return fail('File type not allowed');
+        }
+        if (typeof operation.content !== 'string') {
+          return fail('content must be a string');
+        }
+        break;
+
+      case 'delete':
+        if (typeof operation.path !== 'string' || !isSitePathTarget(operation.path)) {
+          return fail('Invalid file path');
+        }
+        if (isCriticalFile(operation.path)) {
+          return fail('Cannot delete critical files');
+        }
+        break;
+
+      case 'move':
+        if (typeof operation.from !== 'string' || typeof operation.to !== 'string' ||
+            !isSitePathTarget(operation.from) || !isSitePathTarget(operation.to)) {
+          return fail('Invalid file path');
+        }
+        if (isCriticalFile(operation.from)) {
+          return fail('Cannot move critical files');
+        }
+        break;
+
+      default:
+        fail('op must be "write", "delete" or "move"');
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+
+/**
+ * sha256 of a text file's content, the version tag used for optimistic
+ * concurrency on file edits
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+export function formatETag(hash: string): string {
+  return `"${hash}"`;
+}
+
+/**
+ * Whether an `If-Match` header lets a write go ahead. `currentHash` is
+ * undefined for folders and null when nothing exists at the path.
+ */
+export function matchesIfMatch(header: string | undefined, currentHash: string | null | undefined): boolean {
+  if (header === undefined) {
+    return true;
+  }
+
+  const tags = header.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  if (tags.includes('*')) {
+    return currentHash !== null;
+  }
+
+  // Strong comparison, a weak tag never matches
+  return typeof currentHash === 'string' && tags.some(tag => tag === formatETag(currentHash));
+}
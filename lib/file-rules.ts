@@ -0,0 +1,71 @@
+import path from 'path';
+
+// Security: Allowed file extensions
+export const ALLOWED_EXTENSIONS = ['.md', '.markdown', '.html', '.yml', '.yaml', '.css', '.scss', '.sass', '.js', '.json', '.csv', '.tsv', '.txt'];
+export const DANGEROUS_PATHS = ['..', '.env', 'node_modules', '.git'];
+
+// Files a site can't do without
+export const CRITICAL_FILES = ['_config.yml', 'Gemfile', 'index.html', 'index.md'];
+
+/**
+ * Path is relative, stays inside the site and avoids sensitive folders
+ */
+export function isPathSafe(filePath: string): boolean {
+  // Check for path traversal attempts
+  const normalizedPath = path.normalize(filePath);
+  if (normalizedPath.includes('..') || normalizedPath.startsWith('/')) {
+    return false;
+  }
+
+  // Check for dangerous paths
+  if (DANGEROUS_PATHS.some(dangerous => normalizedPath.includes(dangerous))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Path names something inside the site rather than the site folder itself
+ */
+export function isSitePathTarget(filePath: string): boolean {
+  const normalizedPath = path.normalize(filePath || '.');
+  return normalizedPath !== '.' && normalizedPath !== './' && isPathSafe(filePath);
+}
+
+export function isFileExtensionAllowed(filePath: string): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  return ALLOWED_EXTENSIONS.includes(ext) || ext === '';
+}
+
+export function isCriticalFile(filePath: string): boolean {
+  return CRITICAL_FILES.includes(path.basename(filePath));
+}
+
+/**
+ * Validate site name. Names become folder names and docker arguments, so
+ * only letters, digits, dashes and underscores are allowed.
+ */
+export function validateSiteName(name: string): { isValid: boolean; error?: string } {
+  if (!name || typeof name !== 'string') {
+    return { isValid: false, error: 'Site name is required' };
+  }
+  
+  // Check length
+  if (name.length < 3 || name.length > 50) {
+    return { isValid: false, error: 'Site name must be between 3 and 50 characters' };
+  }
+  
+  // Check format (alphanumeric, hyphens, underscores only)
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    return { isValid: false, error: 'Site name can only contain letters, numbers, hyphens, and underscores' };
+  }
+  
+  // Check for reserved names
+  const reservedNames = ['api', 'admin', 'www', 'mail', 'ftp', 'localhost', 'example'];
+  if (reservedNames.includes(name.toLowerCase())) {
+    return { isValid: false, error: 'Site name is reserved' };
+  }
+  
+  return { isValid: true };
+}
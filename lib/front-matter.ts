@@ -0,0 +1,120 @@
+import yaml, { Document, YAMLMap, isMap } from 'yaml';
+import { syncMap } from './yaml-sync';
+
+// Files whose front matter the content API edits
+export const CONTENT_EXTENSIONS = ['.md', '.html'];
+
+export interface FrontMatterError {
+  message: string;
+  // Line in the file (1-based, counting the opening ---)
+  line?: number;
+  column?: number;
+}
+
+export interface ParsedContent {
+  // null when the file has no front matter block
+  frontMatter: Record<string, any> | null;
+  body: string;
+  errors: FrontMatterError[];
+}
+
+// Opening --- on the first line, closing --- (or ...) on a line of its own
+const FRONT_MATTER_PATTERN = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parse front matter into a YAML document, collecting syntax errors.
+ * `lineOffset` shifts reported lines to where the block sits in the file.
+ */
+function parseFrontMatterDocument(text: string, lineOffset: number = 0): { document: Document; errors: FrontMatterError[] } {
+  const document = yaml.parseDocument(text);
+  const errors: FrontMatterError[] = document.errors.map(error => ({
+    // Position is reported separately, relative to the file
+    message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+    line: error.linePos ? error.linePos[0].line + lineOffset : undefined,
+    column: error.linePos ? error.linePos[0].col : undefined
+  }));
+
+  if (errors.length === 0 && document.contents !== null && !isMap(document.contents)) {
+    errors.push({ message: 'Front matter must be a mapping of keys to values', line: 1 + lineOffset });
+  }
+
+  return { document, errors };
+}
+
+/**
+ * Length of the front matter block (both --- lines included) at the start
+ * of a file, 0 when there is none
+ */
+export function getFrontMatterLength(source: string): number {
+  const match = FRONT_MATTER_PATTERN.exec(source);
+  return match ? match[0].length : 0;
+}
+
+/**
+ * Split a content file into its front matter and body
+ */
+export function parseContent(source: string): ParsedContent {
+  const match = FRONT_MATTER_PATTERN.exec(source);
+  if (!match) {
+    return { frontMatter: null, body: source, errors: [] };
+  }
+
+  const body = source.slice(match[0].length);
+  const { document, errors } = parseFrontMatterDocument(match[1] || '', 1);
+  if (errors.length > 0) {
+    return { frontMatter: null, body, errors };
+  }
+
+  return { frontMatter: document.toJS() || {}, body, errors: [] };
+}
+
+/**
+ * Write front matter and body back into a content file. `frontMatter` is
+ * either an object, merged into the file's current front matter (`original`)
+ * to keep its comments and key order, or raw YAML text used as is. null
+ * leaves the file without front matter.
+ */
+export function serializeContent(
+  frontMatter: Record<string, any> | string | null,
+  body: string,
+  original: string = ''
+): { source?: string; errors: FrontMatterError[] } {
+  if (frontMatter === null) {
+    return { source: body, errors: [] };
+  }
+
+  let document: Document;
+
+  if (typeof frontMatter === 'string') {
+    const parsed = parseFrontMatterDocument(frontMatter);
+    if (parsed.errors.length > 0) {
+      return { errors: parsed.errors };
+    }
+    document = parsed.document;
+  } else {
+    // Start from the current front matter when it is readable
+    const match = FRONT_MATTER_PATTERN.exec(original);
+    const current = match ? parseFrontMatterDocument(match[1] || '') : undefined;
+
+    document = current && current.errors.length === 0 ? current.document : new Document({});
+    if (!isMap(document.contents)) {
+      document.contents = document.createNode({}) as any;
+    }
+    syncMap(document, document.contents as YAMLMap, frontMatter);
+  }
+
+  const isEmpty = !document.contents || (isMap(document.contents) && document.contents.items.length === 0);
+  const text = isEmpty ? '' : document.toString({ lineWidth: 0 });
+
+  return { source: `---\n${text}---\n${body}`, errors: [] };
+}
+
+/**
+ * Check a `frontMatter` value sent by a client
+ */
+export function isValidFrontMatterInput(value: any): boolean {
+  return value === null || typeof value === 'string' || isPlainObject(value);
+}
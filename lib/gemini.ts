@@ -1,5 +1,6 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import chalk from 'chalk';
+import { NAVIGATION_INCLUDE, NAVIGATION_ITEMS_INCLUDE, navigationFromPages } from './navigation';
 
 interface JekyllSiteStructure {
   name: string;
@@ -40,6 +41,8 @@ interface JekyllSiteStructure {
     permalink?: string;
     [key: string]: any; // Untuk front matter tambahan seperti price, image, dll.
   }>>;
+  // Files for _data, by name (navigation -> _data/navigation.yml)
+  data?: Record<string, any>;
 }
 
 class GeminiService {
@@ -381,7 +384,8 @@ Return only CSS code, no explanations.
       posts: structure.posts || [],
       pages: structure.pages || [],
       assets: structure.assets || {},
-      collections: structure.collections || {}
+      collections: structure.collections || {},
+      data: structure.data && typeof structure.data === 'object' && !Array.isArray(structure.data) ? structure.data : {}
     };
 
     const isEcommerce = prompt.toLowerCase().includes('toko online') || prompt.toLowerCase().includes('online store') || prompt.toLowerCase().includes('snipcart');
@@ -558,19 +562,28 @@ layout: default
 
     // Tambahkan default includes jika kosong
     if (cleaned.includes.length === 0) {
-      cleaned.includes.push({
-        name: 'navigation.html',
-        content: `<nav>
-<ul>
-  {% for page in site.pages %}
-    {% if page.title %}
-      <li><a href="{{ page.url | relative_url }}">{{ page.title }}</a></li>
-    {% endif %}
-  {% endfor %}
-  ${isEcommerce ? '<li><a href="/products">Shop</a></li>' : ''}
-</ul>
-</nav>`
-      });
+      cleaned.includes.push(
+        { name: 'navigation.html', content: NAVIGATION_INCLUDE },
+        { name: 'navigation-items.html', content: NAVIGATION_ITEMS_INCLUDE }
+      );
+    }
+
+    // Main menu from the pages, editable through the navigation API
+    if (cleaned.data && !cleaned.data.navigation) {
+      const main = navigationFromPages(cleaned.pages);
+
+      // Stores link their products, like the old default navigation did
+      if (isEcommerce) {
+        const shop = { title: 'Shop', url: '/products/' };
+        const index = main.findIndex(item => item.title === shop.title || item.url.replace(/(\.html|\/)$/, '') === '/products');
+        if (index === -1) {
+          main.push(shop);
+        } else {
+          main[index] = shop;
+        }
+      }
+
+      cleaned.data.navigation = { main };
     }
 
     return cleaned;
@@ -1,8 +1,100 @@
 // lib/jekyll-manager-instance.ts
 
 import JekyllManager from './jekyll-manager';
+import PostManager from './post-manager';
+import CollectionManager from './collection-manager';
+import DataManager from './data-manager';
+import NavigationManager from './navigation-manager';
+import SearchManager from './search-manager';
 
-// Buat SATU instance di sini dan ekspor
-const jekyllManager = new JekyllManager();
+type ServiceMap = Map<string, unknown>;
 
-export default jekyllManager;
\ No newline at end of file
+// Kept on globalThis so every API route bundle and every hot reload in
+// development share the same instances instead of creating their own
+const globalForServices = globalThis as typeof globalThis & {
+  __jekyllStudioServices?: ServiceMap;
+};
+
+if (!globalForServices.__jekyllStudioServices) {
+  globalForServices.__jekyllStudioServices = new Map();
+}
+
+const services: ServiceMap = globalForServices.__jekyllStudioServices;
+
+/**
+ * Get a process-wide service, creating it on first use
+ */
+export function getService<T>(name: string, factory: () => T): T {
+  if (!services.has(name)) {
+    services.set(name, factory());
+  }
+  return services.get(name) as T;
+}
+
+/**
+ * Look up a service without creating it
+ */
+export function findService<T>(name: string): T | undefined {
+  return services.get(name) as T | undefined;
+}
+
+/**
+ * Register (or replace) a service instance
+ */
+export function setService<T>(name: string, instance: T): T {
+  services.set(name, instance);
+  return instance;
+}
+
+/**
+ * Forget a service instance
+ */
+export function removeService(name: string): void {
+  services.delete(name);
+}
+
+/**
+ * Shared JekyllManager used by every route and the WebSocket server
+ */
+export function getJekyllManager(): JekyllManager {
+  return getService('jekyllManager', () => new JekyllManager());
+}
+
+/**
+ * Shared PostManager, working through the shared JekyllManager
+ */
+export function getPostManager(): PostManager {
+  return getService('postManager', () => new PostManager(getJekyllManager()));
+}
+
+/**
+ * Shared CollectionManager, working through the shared JekyllManager
+ */
+export function getCollectionManager(): CollectionManager {
+  return getService('collectionManager', () => new CollectionManager(getJekyllManager()));
+}
+
+/**
+ * Shared DataManager, working through the shared JekyllManager
+ */
+export function getDataManager(): DataManager {
+  return getService('dataManager', () => new DataManager(getJekyllManager()));
+}
+
+/**
+ * Shared NavigationManager, working through the shared JekyllManager
+ */
+export function getNavigationManager(): NavigationManager {
+  return getService('navigationManager', () => new NavigationManager(getJekyllManager(), getDataManager()));
+}
+
+/**
+ * Shared SearchManager, working through the shared JekyllManager
+ */
+export function getSearchManager(): SearchManager {
+  return getService('searchManager', () => new SearchManager(getJekyllManager()));
+}
+
+const jekyllManager = getJekyllManager();
+
+export default jekyllManager;
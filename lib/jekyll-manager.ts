@@ -6,126 +6,605 @@ import yaml from 'yaml';
 import { v4 as uuidv4 } from 'uuid';
 import chokidar from 'chokidar';
 import { EventEmitter } from 'events';
+import { SiteRegistry, createSiteRegistry } from './site-registry';
+import { JekyllRunner, OutputStream, ServeHandle, createJekyllRunner } from './jekyll-runner';
+import BuildQueue, { BuildJob, EnqueueOptions } from './build-queue';
+import BuildHistory, { BuildRecord, toBuildRecord } from './build-history';
+import { BuildDiagnostic, parseBuildDiagnostics } from './build-diagnostics';
+import { BuildCacheInfo, hasJekyllCache, hashSourceTree } from './build-cache';
+import { BuildProfile, getDefaultProfileName, resolveBuildProfiles } from './build-profiles';
+import SiteWatcher from './site-watcher';
+import { isCriticalFile, isFileExtensionAllowed, isSitePathTarget, validateSiteName } from './file-rules';
+import { FileTreeNode, FileTreeOptions, buildFileTree } from './site-tree';
+import { formatETag, hashContent, matchesIfMatch } from './file-etag';
+import { FileChange, FileOperation, validateFileOperations } from './file-batch';
+import { slugify } from './slugify';
+import { parseContent, serializeContent } from './front-matter';
+import {
+  COLLECTION_ITEM_EXTENSIONS,
+  getCollectionFolder,
+  getCollectionsDir,
+  getConfiguredCollections,
+  isValidCollectionName
+} from './collections';
+import { ConfigPatchResult, applyConfigPatch } from './site-config';
 
 const execAsync = promisify(exec);
 
-interface JekyllSite {
+// Lines of output kept per running build for late subscribers
+const MAX_BUILD_LOG_LINES = 1000;
+
+export interface JekyllSite {
   id: string;
   name: string;
   path: string;
   status: 'creating' | 'ready' | 'building' | 'serving' | 'error';
   port?: number;
+  containerId?: string;
+  pid?: number;
   createdAt: Date;
   lastBuilt?: Date;
+  // Build whose output is currently in _site/
+  activeBuildId?: string;
+  // Source tree hash of the last successful build, per build profile
+  sourceHashes?: Record<string, string>;
+  // Site specific build profiles and changes to the built-in ones
+  buildProfiles?: Record<string, Partial<BuildProfile>>;
+  // Rebuild automatically when sources change
+  watch?: boolean;
+}
+
+export interface SiteFileHandle {
+  size: number;
+  modified: Date;
+  // Leading bytes, enough to detect the file type
+  header: Buffer;
+  createReadStream(range?: { start: number; end: number }): fs.ReadStream;
 }
 
-interface BuildResult {
+export interface BuildOutputLine {
+  siteId: string;
+  jobId: string;
+  stream: OutputStream;
+  line: string;
+  timestamp: string;
+}
+
+export interface BuildResult {
   success: boolean;
   output: string;
   error?: string;
   buildTime: number;
+  profile?: string;
+  // Output folder inside the site
+  destination?: string;
+  diagnostics?: BuildDiagnostic[];
+  // Git commit of the site sources, if the site is a repository with commits
+  commit?: string;
+  // Whether the output was kept in the build history
+  snapshot?: boolean;
+  cache?: BuildCacheInfo;
 }
 
 class JekyllManager extends EventEmitter {
   private sites: Map<string, JekyllSite> = new Map();
   private projectsDir: string;
-  private dockerComposePath: string;
+  private registry: SiteRegistry;
+  private runner: JekyllRunner;
+  private buildQueue: BuildQueue;
+  private buildHistory: BuildHistory;
+  private siteWatcher: SiteWatcher;
+  private buildLogs: Map<string, BuildOutputLine[]> = new Map();
+  private cacheStats = { hits: 0, misses: 0 };
+  // Profile that wrote each site's .jekyll-metadata
+  private metadataProfiles: Map<string, string> = new Map();
+  // Pending edit per file, so a version check and its write can't interleave
+  private fileLocks: Map<string, Promise<unknown>> = new Map();
+  // File generation of sites created in the background, run by their first build
+  private siteSetups: Map<string, () => Promise<void>> = new Map();
+  private incrementalBuilds: boolean;
+  private initialization: Promise<void>;
 
-  constructor() {
+  constructor(options: { registry?: SiteRegistry; runner?: JekyllRunner; buildConcurrency?: number } = {}) {
     super();
     this.projectsDir = path.join(process.cwd(), 'projects');
-    this.dockerComposePath = path.join(process.cwd(), 'docker compose.yml');
-    this.ensureProjectsDir();
+    this.registry = options.registry || createSiteRegistry(this.projectsDir);
+    this.runner = options.runner || createJekyllRunner();
+
+    this.incrementalBuilds = process.env.JEKYLL_INCREMENTAL === 'true';
+    this.siteWatcher = new SiteWatcher(
+      (siteId, files) => this.handleWatchedChanges(siteId, files),
+      parseInt(process.env.WATCH_DEBOUNCE_MS || '', 10) || 500
+    );
+    this.buildHistory = new BuildHistory(
+      path.join(this.projectsDir, '.studio', 'builds'),
+      parseInt(process.env.BUILD_HISTORY_LIMIT || '', 10) || 5
+    );
+
+    const concurrency = options.buildConcurrency || parseInt(process.env.BUILD_CONCURRENCY || '', 10) || 2;
+    this.buildQueue = new BuildQueue((job, signal) => this.executeBuild(job, signal), concurrency);
+    this.buildQueue.on('jobUpdated', (job: BuildJob) => {
+      if (job.status !== 'queued' && job.status !== 'running') {
+        this.buildLogs.delete(job.id);
+        this.recordBuild(job);
+        // Cancelled before its files were generated, the site stays empty
+        if (this.siteSetups.delete(job.siteId)) {
+          this.markSiteFailed(job.siteId);
+        }
+      }
+      this.emit('buildJobUpdated', job);
+    });
+    this.buildQueue.on('jobCancelled', (job: BuildJob) => {
+      this.emit('buildCancelled', { site: this.sites.get(job.siteId), job });
+    });
+
+    this.initialization = this.initialize();
+  }
+
+  /**
+   * Name of the configured build/serve runner
+   */
+  getRunnerName(): string {
+    return this.runner.name;
+  }
+
+  /**
+   * Resolves once registered sites have been reloaded from the registry
+   */
+  ready(): Promise<void> {
+    return this.initialization;
   }
 
   /**
    * Create new Jekyll site from AI-generated structure
    */
   async createSite(siteData: any, structure: any): Promise<JekyllSite> {
-    const siteId = uuidv4();
-    const siteName = structure.name || siteData.name || `site-${siteId}`;
-    const sitePath = path.join(this.projectsDir, siteName);
-
-    const site: JekyllSite = {
-      id: siteId,
-      name: siteName,
-      path: sitePath,
-      status: 'creating',
-      createdAt: new Date()
-    };
+    const site = await this.registerNewSite(structure.name || siteData.name);
+    await this.populateSite(site, structure);
+    return site;
+  }
 
-    this.sites.set(siteId, site);
-    this.emit('siteStatusChanged', site);
+  /**
+   * Register a new site right away and queue its first build. The build job
+   * first calls `generate` for the site structure and writes the files, so
+   * a slow generator (the AI call) doesn't hold up the caller. Without a
+   * name the site takes the generated one, if it is still free.
+   */
+  async createSiteInBackground(
+    siteData: any,
+    generate: () => Promise<any>
+  ): Promise<{ site: JekyllSite; job: BuildJob }> {
+    const site = await this.registerNewSite(siteData.name);
 
-    try {
-      // Create site directory
-      await fs.ensureDir(sitePath);
+    // Set before queueing: the build may start right away
+    this.siteSetups.set(site.id, async () => {
+      let structure: any;
+      try {
+        structure = await generate();
 
-      // Create Jekyll structure
-      await this.createJekyllStructure(sitePath, structure);
+        if (!siteData.name && structure.name && await this.isSiteNameFree(structure.name)) {
+          site.name = structure.name;
+          site.path = path.join(this.projectsDir, structure.name);
+        }
+      } catch (error) {
+        await this.markSiteFailed(site.id);
+        throw error;
+      }
 
-      // Initialize Git repository (optional)
-      await this.initGitRepo(sitePath);
+      // Deleted while the structure was generated
+      if (!this.sites.has(site.id)) {
+        throw new Error('Site not found');
+      }
 
-      site.status = 'ready';
-      this.sites.set(siteId, site);
-      this.emit('siteStatusChanged', site);
-      this.emit('siteCreated', site);
+      await this.populateSite(site, structure);
+    });
 
-      return site;
+    try {
+      const job = this.enqueueBuild(site.id, { triggeredBy: 'create' });
+      return { site, job };
     } catch (error) {
-      site.status = 'error';
-      this.sites.set(siteId, site);
-      this.emit('siteStatusChanged', site);
+      this.siteSetups.delete(site.id);
+      await this.markSiteFailed(site.id);
       throw error;
     }
   }
 
   /**
-   * Build Jekyll site
+   * Queue a build and return its job right away. A build that is already
+   * waiting for the same site is returned instead of queueing another one.
+   * Builds of unchanged sources are skipped unless `force` is set.
+   */
+  enqueueBuild(siteId: string, options: EnqueueOptions = {}): BuildJob {
+    const profile = options.profile || getDefaultProfileName();
+    if (!this.getBuildProfiles(siteId)[profile]) {
+      throw new Error('Build profile not found');
+    }
+
+    return this.buildQueue.enqueue(siteId, {
+      ...options,
+      profile,
+      incremental: options.incremental ?? this.incrementalBuilds
+    });
+  }
+
+  /**
+   * Build profiles of a site: the built-in ones plus the site's own
+   */
+  getBuildProfiles(siteId: string): Record<string, BuildProfile> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+    return resolveBuildProfiles(site.buildProfiles);
+  }
+
+  /**
+   * Create or replace a site's build profile. Fields left out fall back to
+   * the built-in profile of the same name.
+   */
+  async saveBuildProfile(siteId: string, name: string, profile: Partial<BuildProfile>): Promise<BuildProfile> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    site.buildProfiles = { ...site.buildProfiles, [name]: profile };
+    // Output of the old settings doesn't count as up to date anymore
+    if (site.sourceHashes) {
+      delete site.sourceHashes[name];
+    }
+    this.sites.set(siteId, site);
+    await this.persistSite(site);
+
+    return this.getBuildProfiles(siteId)[name];
+  }
+
+  /**
+   * Remove a site's own profile, or its changes to a built-in one.
+   * Returns false if there was nothing to remove.
+   */
+  async deleteBuildProfile(siteId: string, name: string): Promise<boolean> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    if (!site.buildProfiles || !site.buildProfiles[name]) {
+      return false;
+    }
+
+    const { [name]: removed, ...remaining } = site.buildProfiles;
+    site.buildProfiles = remaining;
+    if (site.sourceHashes) {
+      delete site.sourceHashes[name];
+    }
+    this.sites.set(siteId, site);
+    await this.persistSite(site);
+
+    return true;
+  }
+
+  /**
+   * Build Jekyll site through the build queue and wait for the result
    */
   async buildSite(siteId: string): Promise<BuildResult> {
+    const job = await this.waitForBuild(this.enqueueBuild(siteId).id);
+    if (!job.result) {
+      throw new Error(job.error || 'Build failed');
+    }
+    return job.result;
+  }
+
+  /**
+   * Resolve once a build job has finished
+   */
+  waitForBuild(jobId: string): Promise<BuildJob> {
+    return this.buildQueue.wait(jobId);
+  }
+
+  /**
+   * Cancel a site's build. Without a job ID both the running and the waiting
+   * build are cancelled. Returns the jobs that were cancelled.
+   */
+  cancelBuild(siteId: string, jobId?: string): BuildJob[] {
+    if (!this.sites.has(siteId)) {
+      throw new Error('Site not found');
+    }
+
+    const jobs = this.buildQueue.getActiveJobs(siteId)
+      .filter(job => !jobId || job.id === jobId);
+
+    return jobs.filter(job => this.buildQueue.cancel(job.id));
+  }
+
+  /**
+   * Output lines of a running build so far
+   */
+  getBuildLog(jobId: string): BuildOutputLine[] {
+    return this.buildLogs.get(jobId) || [];
+  }
+
+  /**
+   * Get build job by ID
+   */
+  getBuildJob(jobId: string): BuildJob | undefined {
+    return this.buildQueue.getJob(jobId);
+  }
+
+  /**
+   * Get build jobs of a site, newest first
+   */
+  getBuildJobs(siteId: string): BuildJob[] {
+    return this.buildQueue.getJobsForSite(siteId);
+  }
+
+  /**
+   * Build history of a site, newest first: the persisted records plus jobs
+   * that are still active or not written yet
+   */
+  async getBuildHistory(siteId: string): Promise<BuildRecord[]> {
+    const stored = await this.buildHistory.list(siteId);
+    const known = new Set(stored.map(record => record.id));
+    const current = this.buildQueue.getJobsForSite(siteId)
+      .filter(job => !known.has(job.id))
+      .map(toBuildRecord);
+
+    return [...current, ...stored]
+      .sort((a, b) => new Date(b.queuedAt).getTime() - new Date(a.queuedAt).getTime());
+  }
+
+  /**
+   * Get a build of a site by ID
+   */
+  async getBuild(siteId: string, buildId: string): Promise<BuildRecord | undefined> {
+    const builds = await this.getBuildHistory(siteId);
+    return builds.find(build => build.id === buildId);
+  }
+
+  /**
+   * Put the output of an earlier successful build back into the output
+   * folder it was built to
+   */
+  async activateBuild(siteId: string, buildId: string): Promise<BuildRecord> {
     const site = this.sites.get(siteId);
     if (!site) {
       throw new Error('Site not found');
     }
 
-    site.status = 'building';
+    const build = await this.getBuild(siteId, buildId);
+    if (!build) {
+      throw new Error('Build not found');
+    }
+
+    const destination = build.destination || '_site';
+    await this.buildHistory.restoreSnapshot(siteId, buildId, path.join(site.path, destination));
+    // The output no longer matches the sources or Jekyll's incremental metadata
+    await fs.remove(path.join(site.path, '.jekyll-metadata'));
+
+    if (destination === '_site') {
+      site.activeBuildId = buildId;
+    }
+    if (build.profile && site.sourceHashes) {
+      delete site.sourceHashes[build.profile];
+    } else {
+      site.sourceHashes = undefined;
+    }
     this.sites.set(siteId, site);
-    this.emit('siteStatusChanged', site);
+    await this.persistSite(site);
+    this.emit('buildActivated', { site, build });
+
+    return build;
+  }
+
+  /**
+   * Turn watch mode on or off. Watched sites rebuild through the build queue
+   * whenever their sources change, whether or not a dev server is running.
+   */
+  async setWatchMode(siteId: string, enabled: boolean): Promise<JekyllSite> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    if (enabled) {
+      this.siteWatcher.watch(siteId, site.path);
+    } else {
+      await this.siteWatcher.unwatch(siteId);
+    }
+
+    site.watch = enabled;
+    this.sites.set(siteId, site);
+    await this.persistSite(site);
+    this.emit('siteWatchChanged', site);
+
+    return site;
+  }
+
+  /**
+   * Whether a site's sources are being watched right now
+   */
+  isWatching(siteId: string): boolean {
+    return this.siteWatcher.isWatching(siteId);
+  }
+
+  /**
+   * How often builds were skipped because the sources had not changed
+   */
+  getBuildCacheStats(): { hits: number; misses: number; hitRate: number; incremental: boolean } {
+    const total = this.cacheStats.hits + this.cacheStats.misses;
+    return {
+      ...this.cacheStats,
+      hitRate: total > 0 ? this.cacheStats.hits / total : 0,
+      incremental: this.incrementalBuilds
+    };
+  }
+
+  /**
+   * Current build queue load
+   */
+  getBuildQueueStats(): { queued: number; running: number; concurrency: number } {
+    return this.buildQueue.getStats();
+  }
+
+  /**
+   * Run Jekyll build for a site (called by the build queue)
+   */
+  private async executeBuild(job: BuildJob, signal?: AbortSignal): Promise<BuildResult> {
+    const siteId = job.siteId;
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    // A site created in the background gets its files first
+    const setup = this.siteSetups.get(siteId);
+    if (setup) {
+      this.siteSetups.delete(siteId);
+      await setup();
+      if (signal?.aborted) {
+        throw new Error('Build cancelled');
+      }
+    }
+
+    const profile = this.getBuildProfiles(siteId)[job.profile || getDefaultProfileName()];
+    if (!profile) {
+      throw new Error('Build profile not found');
+    }
 
     const startTime = Date.now();
+    const incremental = !!job.incremental;
+    const sourceHash = await hashSourceTree(site.path).catch((error) => {
+      console.warn(`Failed to hash sources of site ${site.id}:`, error);
+      return undefined;
+    });
+
+    // Nothing changed since the last successful build, keep its output
+    if (!job.force && sourceHash && site.sourceHashes?.[profile.name] === sourceHash &&
+        await fs.pathExists(path.join(site.path, profile.destination))) {
+      this.cacheStats.hits++;
+      return {
+        success: true,
+        output: 'Sources unchanged since the last successful build, build skipped\n',
+        buildTime: Date.now() - startTime,
+        profile: profile.name,
+        destination: profile.destination,
+        diagnostics: [],
+        commit: await this.getCommitHash(site.path),
+        snapshot: false,
+        cache: { hit: true, sourceHash, incremental, warm: true }
+      };
+    }
+    this.cacheStats.misses++;
+
+    const cache: BuildCacheInfo = {
+      hit: false,
+      sourceHash,
+      incremental,
+      warm: await hasJekyllCache(site.path)
+    };
+    const previousStatus = site.status;
+
+    site.status = 'building';
+    await this.updateSiteState(site);
+
+    const buildLog: BuildOutputLine[] = [];
+    this.buildLogs.set(job.id, buildLog);
+
+    const onOutput = (line: string, stream: OutputStream) => {
+      const entry: BuildOutputLine = {
+        siteId,
+        jobId: job.id,
+        stream,
+        line,
+        timestamp: new Date().toISOString()
+      };
+
+      buildLog.push(entry);
+      if (buildLog.length > MAX_BUILD_LOG_LINES) {
+        buildLog.shift();
+      }
+      this.emit('buildOutput', entry);
+    };
+
+    // Diagnostics report paths relative to the site root
+    const roots = [site.path, this.runner.workspacePath(site)];
 
     try {
-      // Build using Docker container
-      const command = `docker compose run --rm jekyll build /workspace/projects/${site.name}`;
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: path.dirname(this.dockerComposePath),
-        timeout: 120000 // 2 minutes timeout
+      // Incremental metadata written for another profile would leave this
+      // profile's output stale
+      if (incremental && this.metadataProfiles.get(siteId) !== profile.name) {
+        await fs.remove(path.join(site.path, '.jekyll-metadata'));
+      }
+
+      const { stdout, stderr } = await this.runner.build(site, {
+        signal,
+        onOutput,
+        incremental,
+        profile: await this.withExistingConfigFiles(site, profile)
       });
+      if (incremental) {
+        this.metadataProfiles.set(siteId, profile.name);
+      }
 
       const buildTime = Date.now() - startTime;
-      site.status = 'ready';
+      const commit = await this.getCommitHash(site.path);
+      // A site deleted during the build gets no snapshot
+      const snapshot = this.sites.has(siteId) && await this.saveBuildSnapshot(site, job.id, profile.destination);
+
+      // A running dev server keeps serving after a build
+      site.status = previousStatus === 'serving' ? 'serving' : 'ready';
       site.lastBuilt = new Date();
-      this.sites.set(siteId, site);
-      this.emit('siteStatusChanged', site);
-      this.emit('siteBuilt', site);
+      if (snapshot && profile.destination === '_site') {
+        site.activeBuildId = job.id;
+      }
+      if (sourceHash) {
+        site.sourceHashes = { ...site.sourceHashes, [profile.name]: sourceHash };
+      }
+      if (await this.updateSiteState(site)) {
+        this.emit('siteBuilt', site);
+      }
 
       return {
         success: true,
         output: stdout,
-        buildTime
+        buildTime,
+        profile: profile.name,
+        destination: profile.destination,
+        diagnostics: parseBuildDiagnostics(`${stdout}\n${stderr}`, roots),
+        commit,
+        snapshot,
+        cache
       };
     } catch (error: any) {
+      if (signal?.aborted) {
+        // A cancelled build leaves the site as it was
+        site.status = previousStatus;
+        await this.updateSiteState(site);
+        throw error;
+      }
+
       site.status = 'error';
-      this.sites.set(siteId, site);
-      this.emit('siteStatusChanged', site);
+      // Jekyll may have wiped the output, never skip the next build
+      if (site.sourceHashes) {
+        delete site.sourceHashes[profile.name];
+      }
+      await this.updateSiteState(site);
+
+      const diagnostics = parseBuildDiagnostics(`${error.stdout || ''}\n${error.stderr || ''}`, roots);
+      // Always explain a failed build, even when the output had nothing we recognise
+      if (!diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        diagnostics.push({ kind: 'jekyll', severity: 'error', message: error.message });
+      }
 
       return {
         success: false,
         output: error.stdout || '',
         error: error.stderr || error.message,
-        buildTime: Date.now() - startTime
+        buildTime: Date.now() - startTime,
+        profile: profile.name,
+        destination: profile.destination,
+        diagnostics,
+        cache
       };
     }
   }
@@ -143,15 +622,14 @@ class JekyllManager extends EventEmitter {
     const servePort = port || await this.findAvailablePort();
 
     try {
-      // Start development server using Docker
-      const command = `docker compose run --rm -d -p ${servePort}:${servePort} jekyll serve /workspace/projects/${site.name} ${servePort}`;
-      await execAsync(command, {
-        cwd: path.dirname(this.dockerComposePath)
-      });
+      const handle = await this.runner.serve(site, servePort);
 
+      site.containerId = handle.containerId;
+      site.pid = handle.pid;
       site.status = 'serving';
       site.port = servePort;
       this.sites.set(siteId, site);
+      await this.persistSite(site);
       this.emit('siteStatusChanged', site);
       this.emit('siteServing', site);
 
@@ -162,6 +640,7 @@ class JekyllManager extends EventEmitter {
     } catch (error) {
       site.status = 'error';
       this.sites.set(siteId, site);
+      await this.persistSite(site);
       this.emit('siteStatusChanged', site);
       throw error;
     }
@@ -177,14 +656,25 @@ class JekyllManager extends EventEmitter {
     }
 
     try {
-      // Stop Docker container (simplified - you might need container ID tracking)
-      await execAsync('docker compose down', {
-        cwd: path.dirname(this.dockerComposePath)
-      });
+      // Stop only this site's server
+      const handle = this.getServeHandle(site);
+      if (handle) {
+        try {
+          await this.runner.stop(handle);
+        } catch (error) {
+          // Already gone is as good as stopped
+          if (await this.runner.isRunning(handle)) {
+            throw error;
+          }
+        }
+      }
 
       site.status = 'ready';
       site.port = undefined;
+      site.containerId = undefined;
+      site.pid = undefined;
       this.sites.set(siteId, site);
+      await this.persistSite(site);
       this.emit('siteStatusChanged', site);
       this.emit('siteStopped', site);
     } catch (error) {
@@ -193,55 +683,417 @@ class JekyllManager extends EventEmitter {
   }
 
   /**
-   * Update site file
+   * Update site file. With `ifMatch` (an If-Match header value) the write
+   * only happens while the file still has that version, otherwise it throws
+   * 'File has changed'. Returns the hash of the new content.
+   */
+  async updateFile(siteId: string, filePath: string, content: string, options: { ifMatch?: string } = {}): Promise<string> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    const fullPath = path.join(site.path, filePath);
+
+    return this.withFileLock(fullPath, async () => {
+      if (options.ifMatch !== undefined && !matchesIfMatch(options.ifMatch, await this.currentFileHash(fullPath))) {
+        throw new Error('File has changed');
+      }
+
+      // Ensure directory exists
+      await fs.ensureDir(path.dirname(fullPath));
+      
+      // Write file
+      await fs.writeFile(fullPath, content, 'utf8');
+
+      const hash = hashContent(content);
+      this.emit('fileUpdated', { site, filePath, content, hash });
+      return hash;
+    });
+  }
+
+  /**
+   * Content hash of a site file, the value behind its ETag
+   */
+  async getFileHash(siteId: string, filePath: string): Promise<string> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    return hashContent(await fs.readFile(path.join(site.path, filePath), 'utf8'));
+  }
+
+  /**
+   * Read site file
+   */
+  async readFile(siteId: string, filePath: string): Promise<string> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    const fullPath = path.join(site.path, filePath);
+    return await fs.readFile(fullPath, 'utf8');
+  }
+
+  /**
+   * List site files
+   */
+  async listFiles(siteId: string, directory: string = ''): Promise<any[]> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    const dirPath = path.join(site.path, directory);
+    const items = await fs.readdir(dirPath, { withFileTypes: true });
+    
+    return items.map(item => ({
+      name: item.name,
+      type: item.isDirectory() ? 'directory' : 'file',
+      path: path.join(directory, item.name)
+    }));
+  }
+
+  /**
+   * File system details of a site file or folder
+   */
+  async statFile(siteId: string, filePath: string): Promise<fs.Stats> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    return await fs.stat(path.join(site.path, filePath));
+  }
+
+  /**
+   * Parsed _config.yml of a site; empty when it is missing or doesn't parse
+   */
+  async readSiteConfig(siteId: string): Promise<Record<string, any>> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    try {
+      const config = yaml.parse(await fs.readFile(path.join(site.path, '_config.yml'), 'utf8'));
+      return config && typeof config === 'object' && !Array.isArray(config) ? config : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  /**
+   * Deep-merge a patch into _config.yml, keeping its comments. Nothing is
+   * written for a dry run or when the file, the patch or the resulting
+   * settings are invalid (see `errors`). `hash` is the version of the file
+   * after the call.
+   */
+  async updateSiteConfig(
+    siteId: string,
+    patch: Record<string, any>,
+    options: { ifMatch?: string; dryRun?: boolean } = {}
+  ): Promise<ConfigPatchResult & { hash: string | null }> {
+    let source = '';
+    let currentHash: string | null = null;
+    try {
+      source = await this.readFile(siteId, '_config.yml');
+      currentHash = hashContent(source);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (!matchesIfMatch(options.ifMatch, currentHash)) {
+      throw new Error('File has changed');
+    }
+
+    const result = applyConfigPatch(source, patch);
+    if (result.errors.length > 0 || options.dryRun || result.changes.length === 0) {
+      return { ...result, hash: currentHash };
+    }
+
+    // Fails if the file changed since it was read above
+    const hash = await this.updateFile(siteId, '_config.yml', result.source as string, {
+      ifMatch: currentHash ? formatETag(currentHash) : undefined
+    });
+
+    return { ...result, hash };
+  }
+
+  /**
+   * Whole source tree of a site (or one folder of it) with sizes, hashes and
+   * the Jekyll role of every file
+   */
+  async getFileTree(siteId: string, options: Omit<FileTreeOptions, 'collections' | 'collectionsDir'> = {}): Promise<FileTreeNode> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    // Collections decide which underscore folders hold documents
+    const config = await this.readSiteConfig(siteId);
+
+    return buildFileTree(site.path, {
+      ...options,
+      collections: Object.keys(getConfiguredCollections(config)),
+      collectionsDir: getCollectionsDir(config)
+    });
+  }
+
+  /**
+   * Write an uploaded binary file. Unless `overwrite` is set, an existing
+   * file is kept and a numbered name (logo-1.png, ...) is used instead.
+   * Returns the path the file was saved under.
+   */
+  async saveAsset(siteId: string, filePath: string, data: Buffer, options: { overwrite?: boolean } = {}): Promise<string> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    if (!isSitePathTarget(filePath)) {
+      throw new Error('Invalid file path');
+    }
+
+    const ext = path.extname(filePath);
+    const base = filePath.slice(0, filePath.length - ext.length);
+    let targetPath = filePath;
+
+    for (let i = 1; !options.overwrite && await fs.pathExists(path.join(site.path, targetPath)); i++) {
+      targetPath = `${base}-${i}${ext}`;
+    }
+
+    const fullPath = path.join(site.path, targetPath);
+    await fs.ensureDir(path.dirname(fullPath));
+    await fs.writeFile(fullPath, data);
+
+    this.emit('assetUploaded', { site, filePath: targetPath, size: data.length });
+    return targetPath;
+  }
+
+  /**
+   * Open a site file for streaming
+   */
+  async openFile(siteId: string, filePath: string): Promise<SiteFileHandle> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    if (!isSitePathTarget(filePath)) {
+      throw new Error('Invalid file path');
+    }
+
+    const fullPath = path.join(site.path, filePath);
+    const stats = await fs.stat(fullPath);
+    if (!stats.isFile()) {
+      throw new Error('Not a file');
+    }
+
+    const header = Buffer.alloc(Math.min(stats.size, 512));
+    const fd = await fs.open(fullPath, 'r');
+    try {
+      await fs.read(fd, header, 0, header.length, 0);
+    } finally {
+      await fs.close(fd);
+    }
+
+    return {
+      size: stats.size,
+      modified: stats.mtime,
+      header,
+      createReadStream: (range) => fs.createReadStream(fullPath, range)
+    };
+  }
+
+  /**
+   * Delete a file or folder. Folders with content are only removed with
+   * `recursive`. Returns what was deleted.
+   */
+  async deleteFile(siteId: string, filePath: string, options: { recursive?: boolean; ifMatch?: string } = {}): Promise<'file' | 'directory'> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+
+    if (!isSitePathTarget(filePath)) {
+      throw new Error('Invalid file path');
+    }
+    if (isCriticalFile(filePath)) {
+      throw new Error('Cannot delete critical files');
+    }
+
+    const fullPath = path.join(site.path, filePath);
+
+    const type = await this.withFileLock(fullPath, async () => {
+      if (options.ifMatch !== undefined && !matchesIfMatch(options.ifMatch, await this.currentFileHash(fullPath))) {
+        throw new Error('File has changed');
+      }
+
+      return this.removeSitePath(fullPath, !!options.recursive);
+    });
+
+    this.emit('fileDeleted', { site, filePath, type });
+    return type;
+  }
+
+  /**
+   * Move or rename a file or folder inside the site
    */
-  async updateFile(siteId: string, filePath: string, content: string): Promise<void> {
+  async moveFile(siteId: string, from: string, to: string, options: { overwrite?: boolean } = {}): Promise<'file' | 'directory'> {
     const site = this.sites.get(siteId);
     if (!site) {
       throw new Error('Site not found');
     }
 
-    const fullPath = path.join(site.path, filePath);
-    
-    // Ensure directory exists
-    await fs.ensureDir(path.dirname(fullPath));
-    
-    // Write file
-    await fs.writeFile(fullPath, content, 'utf8');
-    
-    this.emit('fileUpdated', { site, filePath, content });
+    if (!isSitePathTarget(from) || !isSitePathTarget(to)) {
+      throw new Error('Invalid file path');
+    }
+    if (isCriticalFile(from)) {
+      throw new Error('Cannot move critical files');
+    }
+
+    const type = await this.moveSitePath(path.join(site.path, from), path.join(site.path, to), !!options.overwrite);
+
+    this.emit('fileMoved', { site, from, to, type });
+    return type;
   }
 
   /**
-   * Read site file
+   * Apply several writes, deletes and moves as one change: if any of them
+   * fails, everything done so far is put back and the error carries the
+   * index of the failed `operation`. Emits a single `filesBatchUpdated` event.
    */
-  async readFile(siteId: string, filePath: string): Promise<string> {
+  async applyFileBatch(siteId: string, operations: FileOperation[]): Promise<FileChange[]> {
     const site = this.sites.get(siteId);
     if (!site) {
       throw new Error('Site not found');
     }
 
-    const fullPath = path.join(site.path, filePath);
-    return await fs.readFile(fullPath, 'utf8');
+    const errors = validateFileOperations(operations);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const fullPath = (filePath: string) => path.join(site.path, filePath);
+    const touched = operations.flatMap(operation =>
+      operation.op === 'move' ? [operation.from, operation.to] : [operation.path]
+    );
+
+    const changes = await this.withFileLocks(touched.map(fullPath), async () => {
+      const backupDir = path.join(this.projectsDir, '.studio', 'batches', uuidv4());
+      const backups: Array<{ target: string; copy?: string }> = [];
+      const changes: FileChange[] = [];
+      let keepBackups = false;
+
+      // Save whatever is at a path (or the first folder that doesn't exist
+      // yet on the way to it) before an operation changes it
+      const backup = async (filePath: string) => {
+        const segments = filePath.split(/[\\/]+/);
+        let target = fullPath(filePath);
+        for (let i = 1; i <= segments.length; i++) {
+          const candidate = fullPath(segments.slice(0, i).join('/'));
+          if (!await fs.pathExists(candidate)) {
+            target = candidate;
+            break;
+          }
+        }
+
+        const entry: { target: string; copy?: string } = { target };
+        if (await fs.pathExists(target)) {
+          entry.copy = path.join(backupDir, String(backups.length));
+          await fs.copy(target, entry.copy, { preserveTimestamps: true });
+        }
+        backups.push(entry);
+      };
+
+      try {
+        for (let index = 0; index < operations.length; index++) {
+          const operation = operations[index];
+          try {
+            if (operation.op === 'write') {
+              const target = fullPath(operation.path);
+              if (operation.ifMatch !== undefined && !matchesIfMatch(operation.ifMatch, await this.currentFileHash(target))) {
+                throw new Error('File has changed');
+              }
+
+              await backup(operation.path);
+              await fs.ensureDir(path.dirname(target));
+              await fs.writeFile(target, operation.content, 'utf8');
+              changes.push({ op: 'write', path: operation.path, hash: hashContent(operation.content), type: 'file' });
+
+            } else if (operation.op === 'delete') {
+              const target = fullPath(operation.path);
+              if (operation.ifMatch !== undefined && !matchesIfMatch(operation.ifMatch, await this.currentFileHash(target))) {
+                throw new Error('File has changed');
+              }
+
+              await backup(operation.path);
+              const type = await this.removeSitePath(target, !!operation.recursive);
+              changes.push({ op: 'delete', path: operation.path, type });
+
+            } else {
+              await backup(operation.from);
+              await backup(operation.to);
+              const type = await this.moveSitePath(fullPath(operation.from), fullPath(operation.to), !!operation.overwrite);
+              changes.push({ op: 'move', path: operation.to, from: operation.from, type });
+            }
+          } catch (error: any) {
+            error.operation = index;
+            throw error;
+          }
+        }
+      } catch (error) {
+        // Undo in reverse order
+        for (const { target, copy } of backups.reverse()) {
+          try {
+            await fs.remove(target);
+            if (copy) {
+              await fs.copy(copy, target, { preserveTimestamps: true });
+            }
+          } catch (restoreError) {
+            keepBackups = true;
+            console.error(`Failed to roll back ${target}, backup kept in ${backupDir}:`, restoreError);
+          }
+        }
+        throw error;
+      } finally {
+        if (!keepBackups) {
+          await fs.remove(backupDir).catch(() => undefined);
+        }
+      }
+
+      return changes;
+    });
+
+    this.emit('filesBatchUpdated', { site, changes });
+    return changes;
   }
 
   /**
-   * List site files
+   * Create an empty folder (parents included)
    */
-  async listFiles(siteId: string, directory: string = ''): Promise<any[]> {
+  async createDirectory(siteId: string, dirPath: string): Promise<void> {
     const site = this.sites.get(siteId);
     if (!site) {
       throw new Error('Site not found');
     }
 
-    const dirPath = path.join(site.path, directory);
-    const items = await fs.readdir(dirPath, { withFileTypes: true });
-    
-    return items.map(item => ({
-      name: item.name,
-      type: item.isDirectory() ? 'directory' : 'file',
-      path: path.join(directory, item.name)
-    }));
+    if (!isSitePathTarget(dirPath)) {
+      throw new Error('Invalid file path');
+    }
+
+    const fullPath = path.join(site.path, dirPath);
+    if (await fs.pathExists(fullPath)) {
+      throw new Error('Path already exists');
+    }
+
+    await fs.ensureDir(fullPath);
+    this.emit('directoryCreated', { site, dirPath });
   }
 
   /**
@@ -258,11 +1110,27 @@ class JekyllManager extends EventEmitter {
       await this.stopSite(siteId);
     }
 
+    await this.siteWatcher.unwatch(siteId);
+
+    // Stop its builds first; they leave a deleted site alone when they end
+    this.siteSetups.delete(siteId);
+    this.buildQueue.getActiveJobs(siteId).forEach(job => this.buildQueue.cancel(job.id));
+
     // Remove directory
     await fs.remove(site.path);
 
-    // Remove from memory
+    // Remove from memory and registry
     this.sites.delete(siteId);
+    try {
+      await this.registry.remove(siteId);
+    } catch (error) {
+      console.error(`Failed to remove site ${siteId} from registry:`, error);
+    }
+    try {
+      await this.buildHistory.removeSite(siteId);
+    } catch (error) {
+      console.error(`Failed to remove build history of site ${siteId}:`, error);
+    }
     this.emit('siteDeleted', site);
   }
 
@@ -280,13 +1148,87 @@ class JekyllManager extends EventEmitter {
     return Array.from(this.sites.values());
   }
 
+  /**
+   * Adopt folders in the projects directory that contain a _config.yml but
+   * are not registered yet. Sites with a `_site/` folder come back as `ready`,
+   * the others as `error` until they are built. Folders without a valid site
+   * name are skipped. With `dryRun` nothing is registered and the candidates
+   * are only returned.
+   */
+  async discoverLocalSites(options: { dryRun?: boolean } = {}): Promise<JekyllSite[]> {
+    const registeredPaths = new Set(
+      Array.from(this.sites.values()).map(site => path.resolve(site.path))
+    );
+
+    const entries = await fs.readdir(this.projectsDir, { withFileTypes: true });
+    const discovered: JekyllSite[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const sitePath = path.join(this.projectsDir, entry.name);
+      if (registeredPaths.has(path.resolve(sitePath))) {
+        continue;
+      }
+
+      if (!await fs.pathExists(path.join(sitePath, '_config.yml'))) {
+        continue;
+      }
+
+      // The name ends up in runner commands, only adopt safe ones
+      const nameValidation = validateSiteName(entry.name);
+      if (!nameValidation.isValid) {
+        console.warn(`Skipping local site folder "${entry.name}": ${nameValidation.error}`);
+        continue;
+      }
+
+      const dirStats = await fs.stat(sitePath);
+      const builtStats = await fs.stat(path.join(sitePath, '_site')).catch(() => null);
+
+      const site: JekyllSite = {
+        id: uuidv4(),
+        name: entry.name,
+        path: sitePath,
+        status: builtStats?.isDirectory() ? 'ready' : 'error',
+        createdAt: dirStats.birthtime.getTime() > 0 ? dirStats.birthtime : dirStats.mtime,
+        lastBuilt: builtStats?.isDirectory() ? builtStats.mtime : undefined
+      };
+
+      discovered.push(site);
+
+      if (!options.dryRun) {
+        this.sites.set(site.id, site);
+        await this.persistSite(site);
+        this.emit('siteStatusChanged', site);
+        this.emit('siteImported', site);
+      }
+    }
+
+    return discovered;
+  }
+
   /**
    * Create Jekyll file structure from AI-generated structure
    */
   private async createJekyllStructure(sitePath: string, structure: any): Promise<void> {
+    const config = { ...(structure.config || {}) };
+    const collections: Record<string, any[]> = structure.collections || {};
+    const collectionNames = Object.keys(collections).filter(name => isValidCollectionName(name));
+
+    // Jekyll only reads collections declared in the config
+    if (collectionNames.length > 0) {
+      const declared = getConfiguredCollections(config);
+      config.collections = { ...declared };
+      for (const name of collectionNames) {
+        config.collections[name] = declared[name] || { output: true };
+      }
+    }
+
     // Create _config.yml
     const configPath = path.join(sitePath, '_config.yml');
-    await fs.writeFile(configPath, yaml.stringify(structure.config));
+    await fs.writeFile(configPath, yaml.stringify(config));
 
     // Create Gemfile
     const gemfilePath = path.join(sitePath, 'Gemfile');
@@ -333,12 +1275,23 @@ gem "http_parser.rb", "~> 0.6.0", :platforms => [:jruby]
       }
     }
 
+    // Create data files
+    const dataFiles: Record<string, any> = structure.data || {};
+    const dataNames = Object.keys(dataFiles).filter(name => /^[\w-]+$/.test(name));
+    if (dataNames.length > 0) {
+      const dataDir = path.join(sitePath, '_data');
+      await fs.ensureDir(dataDir);
+      for (const name of dataNames) {
+        await fs.writeFile(path.join(dataDir, `${name}.yml`), yaml.stringify(dataFiles[name]));
+      }
+    }
+
     // Create posts
     if (structure.posts && structure.posts.length > 0) {
       const postsDir = path.join(sitePath, '_posts');
       await fs.ensureDir(postsDir);
       for (const post of structure.posts) {
-        const filename = `${post.date}-${post.title.toLowerCase().replace(/\s+/g, '-')}.md`;
+        const filename = `${post.date}-${slugify(post.title)}.md`;
         await fs.writeFile(
           path.join(postsDir, filename),
           post.content
@@ -346,6 +1299,29 @@ gem "http_parser.rb", "~> 0.6.0", :platforms => [:jruby]
       }
     }
 
+    // Create collections
+    for (const name of collectionNames) {
+      const collectionDir = path.join(sitePath, getCollectionFolder(config, name));
+      await fs.ensureDir(collectionDir);
+
+      for (const item of collections[name] || []) {
+        const { name: fileName, content = '', ...fields } = item;
+        const baseName = typeof fileName === 'string' ? path.basename(fileName) : '';
+        const itemFile = COLLECTION_ITEM_EXTENSIONS.includes(path.extname(baseName).toLowerCase()) && !baseName.startsWith('.')
+          ? baseName
+          : `${slugify(fields.title || baseName) || 'item'}.md`;
+
+        // Other item fields (title, price, image, ...) are front matter; the
+        // content's own front matter wins over them
+        const parsed = parseContent(content);
+        const { source } = parsed.errors.length > 0
+          ? { source: content }
+          : serializeContent({ ...fields, ...(parsed.frontMatter || {}) }, parsed.body, content);
+
+        await fs.writeFile(path.join(collectionDir, itemFile), source as string);
+      }
+    }
+
     // Create pages
     for (const page of structure.pages) {
       await fs.writeFile(
@@ -386,6 +1362,7 @@ gem "http_parser.rb", "~> 0.6.0", :platforms => [:jruby]
       
       // Create .gitignore
       const gitignoreContent = `_site/
+_site-*/
 .sass-cache/
 .jekyll-cache/
 .jekyll-metadata
@@ -437,12 +1414,363 @@ Gemfile.lock
     return port;
   }
 
+  /**
+   * Handle of the site's running dev server, if one is tracked
+   */
+  private getServeHandle(site: JekyllSite): ServeHandle | undefined {
+    if (!site.containerId && !site.pid) {
+      return undefined;
+    }
+    return { containerId: site.containerId, pid: site.pid };
+  }
+
+  /**
+   * Match persisted serving state with the servers that actually survived
+   * the restart
+   */
+  private async reconcileContainers(): Promise<void> {
+    for (const site of Array.from(this.sites.values())) {
+      const handle = this.getServeHandle(site);
+      if (site.status !== 'serving' && !handle) {
+        continue;
+      }
+
+      const running = handle ? await this.runner.isRunning(handle) : false;
+
+      if (running) {
+        site.status = 'serving';
+        this.setupFileWatcher(site);
+        console.log(`Site ${site.name} is still serving on port ${site.port}`);
+      } else {
+        site.status = site.status === 'serving' ? 'ready' : site.status;
+        site.port = undefined;
+        site.containerId = undefined;
+        site.pid = undefined;
+      }
+
+      await this.persistSite(site);
+    }
+  }
+
   /**
    * Ensure projects directory exists
    */
   private async ensureProjectsDir(): Promise<void> {
     await fs.ensureDir(this.projectsDir);
   }
+
+  /**
+   * Prepare projects directory and reload persisted sites
+   */
+  private async initialize(): Promise<void> {
+    await this.ensureProjectsDir();
+
+    try {
+      const sites = await this.registry.load();
+      for (const site of sites) {
+        // A restart interrupts whatever was in flight
+        if (site.status === 'creating') {
+          site.status = 'error';
+        } else if (site.status === 'building') {
+          site.status = 'ready';
+        }
+        this.sites.set(site.id, site);
+      }
+      console.log(`Loaded ${sites.length} site(s) from registry`);
+
+      await this.reconcileContainers();
+    } catch (error) {
+      // Don't adopt anything when the registry is unreadable, that would
+      // register every existing site a second time
+      console.error('Failed to load site registry:', error);
+      return;
+    }
+
+    // Resume watch mode of sites that had it on
+    for (const site of Array.from(this.sites.values())) {
+      if (site.watch) {
+        this.siteWatcher.watch(site.id, site.path);
+      }
+    }
+
+    if (process.env.DISCOVER_LOCAL_SITES !== 'false') {
+      try {
+        const imported = await this.discoverLocalSites();
+        if (imported.length > 0) {
+          console.log(`Imported ${imported.length} existing site(s) from ${this.projectsDir}`);
+        }
+      } catch (error) {
+        console.error('Failed to discover local sites:', error);
+      }
+    }
+  }
+
+  /**
+   * Queue a rebuild for a batch of changes in a watched site. The queue folds
+   * it into a build that is already waiting.
+   */
+  private handleWatchedChanges(siteId: string, files: string[]): void {
+    const site = this.sites.get(siteId);
+    if (!site || !site.watch) {
+      return;
+    }
+
+    try {
+      const job = this.enqueueBuild(siteId, { triggeredBy: 'watch' });
+      this.emit('watchRebuildQueued', { site, job, files });
+    } catch (error) {
+      console.error(`Failed to queue rebuild for watched site ${siteId}:`, error);
+    }
+  }
+
+  /**
+   * Drop extra config files the site doesn't have (e.g. no _config.prod.yml),
+   * Jekyll refuses to build with a missing one
+   */
+  private async withExistingConfigFiles(site: JekyllSite, profile: BuildProfile): Promise<BuildProfile> {
+    const config: string[] = [];
+    for (const file of profile.config) {
+      if (await fs.pathExists(path.join(site.path, file))) {
+        config.push(file);
+      }
+    }
+
+    // Nothing there at all, let Jekyll report it
+    return { ...profile, config: config.length > 0 ? config : profile.config };
+  }
+
+  /**
+   * Keep a copy of a build's output folder in the build history
+   */
+  private async saveBuildSnapshot(site: JekyllSite, buildId: string, destination: string): Promise<boolean> {
+    const outputDir = path.join(site.path, destination);
+
+    try {
+      if (!(await fs.pathExists(outputDir))) {
+        return false;
+      }
+      await this.buildHistory.saveSnapshot(site.id, buildId, outputDir);
+      return true;
+    } catch (error) {
+      console.error(`Failed to snapshot build ${buildId} of site ${site.id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Current commit of a site repository, if there is one
+   */
+  private async getCommitHash(sitePath: string): Promise<string | undefined> {
+    // Only the site's own repository, not one the projects folder lives in
+    if (!(await fs.pathExists(path.join(sitePath, '.git')))) {
+      return undefined;
+    }
+
+    try {
+      const { stdout } = await execAsync('git rev-parse HEAD', { cwd: sitePath, timeout: 10000 });
+      return stdout.trim() || undefined;
+    } catch (error) {
+      // Not a repository or no commits yet
+      return undefined;
+    }
+  }
+
+  /**
+   * Hash of a file's current content: null when nothing is there, undefined
+   * for folders
+   */
+  private async currentFileHash(fullPath: string): Promise<string | null | undefined> {
+    try {
+      const stats = await fs.stat(fullPath);
+      return stats.isFile() ? hashContent(await fs.readFile(fullPath, 'utf8')) : undefined;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a file, or a folder when it is empty or `recursive` is set
+   */
+  private async removeSitePath(fullPath: string, recursive: boolean): Promise<'file' | 'directory'> {
+    const stats = await fs.stat(fullPath);
+    const type = stats.isDirectory() ? 'directory' : 'file';
+
+    if (type === 'directory') {
+      const entries = await fs.readdir(fullPath);
+      if (entries.length > 0 && !recursive) {
+        throw new Error('Directory is not empty');
+      }
+      await fs.remove(fullPath);
+    } else {
+      await fs.unlink(fullPath);
+    }
+
+    return type;
+  }
+
+  /**
+   * Move a file or folder, refusing to clobber unless `overwrite` is set
+   */
+  private async moveSitePath(source: string, target: string, overwrite: boolean): Promise<'file' | 'directory'> {
+    const stats = await fs.stat(source);
+    const type = stats.isDirectory() ? 'directory' : 'file';
+
+    if (type === 'file' && !isFileExtensionAllowed(target)) {
+      throw new Error('File type not allowed');
+    }
+    if (target === source || target.startsWith(source + path.sep)) {
+      throw new Error('Cannot move a path onto or into itself');
+    }
+    if (!overwrite && await fs.pathExists(target)) {
+      throw new Error('Destination already exists');
+    }
+
+    await fs.move(source, target, { overwrite });
+    return type;
+  }
+
+  /**
+   * Run file edits for the same path one after another
+   */
+  private withFileLock<T>(fullPath: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.fileLocks.get(fullPath) || Promise.resolve();
+    const next = previous.then(task, task);
+
+    this.fileLocks.set(fullPath, next);
+    next.finally(() => {
+      if (this.fileLocks.get(fullPath) === next) {
+        this.fileLocks.delete(fullPath);
+      }
+    }).catch(() => undefined);
+
+    return next;
+  }
+
+  /**
+   * Hold the locks of several paths at once, always taken in the same order
+   */
+  private withFileLocks<T>(fullPaths: string[], task: () => Promise<T>): Promise<T> {
+    const [first, ...rest] = Array.from(new Set(fullPaths)).sort();
+    if (!first) {
+      return task();
+    }
+    return this.withFileLock(first, () => this.withFileLocks(rest, task));
+  }
+
+  /**
+   * Persist a finished build job to the site's build history
+   */
+  private async recordBuild(job: BuildJob): Promise<void> {
+    // Builds of a deleted site leave no history behind
+    if (!this.sites.has(job.siteId)) {
+      return;
+    }
+
+    try {
+      await this.buildHistory.record(job);
+    } catch (error) {
+      console.error(`Failed to record build ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Register a site that is still being created
+   */
+  private async registerNewSite(name?: string): Promise<JekyllSite> {
+    const siteId = uuidv4();
+    // Generated names end up in runner commands too, only keep safe ones
+    const siteName = name && validateSiteName(name).isValid ? name : `site-${siteId}`;
+
+    const site: JekyllSite = {
+      id: siteId,
+      name: siteName,
+      path: path.join(this.projectsDir, siteName),
+      status: 'creating',
+      createdAt: new Date()
+    };
+
+    this.sites.set(siteId, site);
+    await this.persistSite(site);
+    this.emit('siteStatusChanged', site);
+
+    return site;
+  }
+
+  /**
+   * Write a registered site's files from its structure and mark it ready
+   */
+  private async populateSite(site: JekyllSite, structure: any): Promise<void> {
+    try {
+      // Create site directory
+      await fs.ensureDir(site.path);
+
+      // Create Jekyll structure
+      await this.createJekyllStructure(site.path, structure);
+
+      // Initialize Git repository (optional)
+      await this.initGitRepo(site.path);
+
+      site.status = 'ready';
+      if (await this.updateSiteState(site)) {
+        this.emit('siteCreated', site);
+      }
+    } catch (error) {
+      await this.markSiteFailed(site.id);
+      throw error;
+    }
+  }
+
+  private async markSiteFailed(siteId: string): Promise<void> {
+    const site = this.sites.get(siteId);
+    if (!site) {
+      return;
+    }
+
+    site.status = 'error';
+    await this.updateSiteState(site);
+  }
+
+  /**
+   * Store and announce a site's new state. Does nothing once the site is
+   * deleted, so work finishing late can't bring it back. Returns whether
+   * the site still exists.
+   */
+  private async updateSiteState(site: JekyllSite): Promise<boolean> {
+    if (!this.sites.has(site.id)) {
+      return false;
+    }
+
+    this.sites.set(site.id, site);
+    await this.persistSite(site);
+    this.emit('siteStatusChanged', site);
+    return true;
+  }
+
+  /**
+   * The name is valid, no other site uses it and its folder doesn't exist yet
+   */
+  private async isSiteNameFree(name: string): Promise<boolean> {
+    if (!validateSiteName(name).isValid) {
+      return false;
+    }
+
+    return !Array.from(this.sites.values()).some(site => site.name === name) &&
+      !await fs.pathExists(path.join(this.projectsDir, name));
+  }
+
+  /**
+   * Write site record through to the registry
+   */
+  private async persistSite(site: JekyllSite): Promise<void> {
+    try {
+      await this.registry.save(site);
+    } catch (error) {
+      console.error(`Failed to persist site ${site.id}:`, error);
+    }
+  }
 }
 
 export default JekyllManager;
\ No newline at end of file
@@ -0,0 +1,413 @@
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs-extra';
+import path from 'path';
+import type { JekyllSite } from './jekyll-manager';
+import type { BuildProfile } from './build-profiles';
+
+// Arguments are passed as a list, never through a shell, so site names and
+// container IDs can't inject commands
+const execFileAsync = promisify(execFile);
+
+const BUILD_TIMEOUT = 120000; // 2 minutes
+
+/**
+ * Whatever is needed to find a running dev server again
+ */
+export interface ServeHandle {
+  containerId?: string;
+  pid?: number;
+}
+
+export interface RunnerOutput {
+  stdout: string;
+  stderr: string;
+}
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface RunnerBuildOptions {
+  // Aborting kills the running build
+  signal?: AbortSignal;
+  // Called for every complete line of build output as it arrives
+  onOutput?: (line: string, stream: OutputStream) => void;
+  // Only regenerate what changed, using .jekyll-metadata from earlier builds
+  incremental?: boolean;
+  // Environment, config files, flags and output folder; config files must exist
+  profile?: BuildProfile;
+}
+
+/**
+ * Extra `jekyll build` arguments for the given options. Paths are made
+ * absolute against `root`, the site folder as Jekyll sees it.
+ */
+function buildFlags(root: string, options: RunnerBuildOptions): string[] {
+  const flags: string[] = [];
+  const profile = options.profile;
+
+  if (profile) {
+    flags.push('--config', profile.config.map(file => path.posix.join(root, file)).join(','));
+    flags.push('--destination', path.posix.join(root, profile.destination));
+    if (profile.drafts) flags.push('--drafts');
+    if (profile.future) flags.push('--future');
+    if (profile.unpublished) flags.push('--unpublished');
+    if (profile.baseurl !== undefined) flags.push('--baseurl', profile.baseurl);
+  }
+
+  if (options.incremental) {
+    flags.push('--incremental');
+  }
+
+  return flags;
+}
+
+/**
+ * Spawn a command and stream its output line by line. Resolves with the
+ * collected output; rejects like `exec` does on a non-zero exit, on timeout
+ * and with an `AbortError` when the signal fires.
+ */
+function runStreamed(
+  command: string,
+  args: string[],
+  options: RunnerBuildOptions & { cwd: string; timeout: number; env?: NodeJS.ProcessEnv }
+): Promise<RunnerOutput> {
+  return new Promise((resolve, reject) => {
+    const output: Record<OutputStream, string> = { stdout: '', stderr: '' };
+    const partial: Record<OutputStream, string> = { stdout: '', stderr: '' };
+    let settled = false;
+
+    const child = spawn(command, args, { cwd: options.cwd, env: options.env, signal: options.signal });
+
+    const collect = (stream: OutputStream) => (chunk: Buffer) => {
+      const text = chunk.toString();
+      output[stream] += text;
+
+      const lines = (partial[stream] + text).split(/\r?\n/);
+      partial[stream] = lines.pop() || '';
+      lines.forEach(line => options.onOutput?.(line, stream));
+    };
+
+    const fail = (error: any) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      reject(Object.assign(error, { stdout: output.stdout, stderr: output.stderr }));
+    };
+
+    const timer = setTimeout(() => {
+      child.kill('SIGTERM');
+      fail(Object.assign(new Error(`Command timed out after ${options.timeout}ms`), { killed: true }));
+    }, options.timeout);
+
+    child.stdout?.on('data', collect('stdout'));
+    child.stderr?.on('data', collect('stderr'));
+
+    // Spawn failures and aborts (AbortError)
+    child.on('error', fail);
+
+    child.on('close', (code) => {
+      (['stdout', 'stderr'] as OutputStream[]).forEach(stream => {
+        if (partial[stream]) {
+          options.onOutput?.(partial[stream], stream);
+          partial[stream] = '';
+        }
+      });
+
+      if (code === 0) {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve({ stdout: output.stdout, stderr: output.stderr });
+      } else {
+        fail(Object.assign(new Error(`Command failed: ${command} ${args.join(' ')}`), { code }));
+      }
+    });
+  });
+}
+
+/**
+ * Executes Jekyll for a site. `build` rejects on failure with an error that
+ * carries `stdout`/`stderr`, just like `exec` does, and with an `AbortError`
+ * when its signal fires.
+ */
+export interface JekyllRunner {
+  readonly name: string;
+  // Where the site lives as seen by Jekyll (paths in build output start here)
+  workspacePath(site: JekyllSite): string;
+  build(site: JekyllSite, options?: RunnerBuildOptions): Promise<RunnerOutput>;
+  serve(site: JekyllSite, port: number): Promise<ServeHandle>;
+  stop(handle: ServeHandle): Promise<void>;
+  isRunning(handle: ServeHandle): Promise<boolean>;
+}
+
+/**
+ * Runs Jekyll inside the `jekyll` docker compose service
+ */
+export class DockerJekyllRunner implements JekyllRunner {
+  readonly name = 'docker';
+  private composeDir: string;
+
+  constructor(composeDir: string = process.cwd()) {
+    this.composeDir = composeDir;
+  }
+
+  workspacePath(site: JekyllSite): string {
+    return `/workspace/projects/${site.name}`;
+  }
+
+  async build(site: JekyllSite, options: RunnerBuildOptions = {}): Promise<RunnerOutput> {
+    // Killing the compose client does not stop the container, so name it
+    // and kill it explicitly on cancel
+    const containerName = `jekyll-studio-build-${site.id}`;
+
+    const killContainer = () => {
+      execFileAsync('docker', ['kill', containerName], { cwd: this.composeDir }).catch(() => undefined);
+    };
+    options.signal?.addEventListener('abort', killContainer, { once: true });
+
+    try {
+      return await runStreamed(
+        'docker',
+        [
+          'compose', 'run', '--rm', '--name', containerName,
+          ...(options.profile ? ['-e', `JEKYLL_ENV=${options.profile.jekyllEnv}`] : []),
+          'jekyll', 'build', this.workspacePath(site),
+          ...buildFlags(this.workspacePath(site), options)
+        ],
+        { ...options, cwd: this.composeDir, timeout: BUILD_TIMEOUT }
+      );
+    } finally {
+      options.signal?.removeEventListener('abort', killContainer);
+    }
+  }
+
+  async serve(site: JekyllSite, port: number): Promise<ServeHandle> {
+    // Named per site so it can be stopped on its own
+    const containerName = `jekyll-studio-${site.id}`;
+    const { stdout } = await execFileAsync('docker', [
+      'compose', 'run', '--rm', '-d', '--name', containerName, '-p', `${port}:${port}`,
+      'jekyll', 'serve', this.workspacePath(site), String(port)
+    ], {
+      cwd: this.composeDir
+    });
+
+    return { containerId: stdout.trim().split('\n').pop() || containerName };
+  }
+
+  async stop(handle: ServeHandle): Promise<void> {
+    if (!handle.containerId) return;
+
+    await execFileAsync('docker', ['stop', handle.containerId], {
+      cwd: this.composeDir
+    });
+  }
+
+  async isRunning(handle: ServeHandle): Promise<boolean> {
+    if (!handle.containerId) return false;
+
+    try {
+      const { stdout } = await execFileAsync('docker', ['inspect', '-f', '{{.State.Running}}', handle.containerId], {
+        timeout: 10000
+      });
+      return stdout.trim() === 'true';
+    } catch (error) {
+      // Unknown container or no Docker daemon
+      return false;
+    }
+  }
+}
+
+/**
+ * Runs `bundle exec jekyll` directly on the host
+ */
+export class LocalJekyllRunner implements JekyllRunner {
+  readonly name = 'local';
+
+  workspacePath(site: JekyllSite): string {
+    return site.path;
+  }
+
+  async build(site: JekyllSite, options: RunnerBuildOptions = {}): Promise<RunnerOutput> {
+    return await runStreamed('bundle', ['exec', 'jekyll', 'build', ...buildFlags(site.path, options)], {
+      ...options,
+      cwd: site.path,
+      env: options.profile ? { ...process.env, JEKYLL_ENV: options.profile.jekyllEnv } : undefined,
+      timeout: BUILD_TIMEOUT
+    });
+  }
+
+  async serve(site: JekyllSite, port: number): Promise<ServeHandle> {
+    const child = spawn('bundle', ['exec', 'jekyll', 'serve', '--host', '0.0.0.0', '--port', String(port)], {
+      cwd: site.path,
+      detached: true,
+      stdio: 'ignore'
+    });
+
+    // Surface spawn failures (e.g. bundle not installed) instead of
+    // reporting a server that never started
+    await new Promise<void>((resolve, reject) => {
+      child.once('error', reject);
+      child.once('spawn', () => resolve());
+    });
+
+    child.unref();
+    return { pid: child.pid };
+  }
+
+  async stop(handle: ServeHandle): Promise<void> {
+    if (!handle.pid) return;
+
+    try {
+      // Kill the whole process group so bundler's children go too
+      process.kill(-handle.pid, 'SIGTERM');
+    } catch (error) {
+      process.kill(handle.pid, 'SIGTERM');
+    }
+  }
+
+  async isRunning(handle: ServeHandle): Promise<boolean> {
+    if (!handle.pid) return false;
+
+    try {
+      process.kill(handle.pid, 0);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+/**
+ * Deterministic stand-in for CI and machines without Jekyll or Docker.
+ * Builds write a fake `_site/` listing the source files, serving only
+ * pretends to start a server. `buildDelay` simulates a slow build.
+ */
+export class FakeJekyllRunner implements JekyllRunner {
+  readonly name = 'fake';
+  private running: Set<string> = new Set();
+  private buildDelay: number;
+
+  constructor(buildDelay: number = 0) {
+    this.buildDelay = buildDelay;
+  }
+
+  workspacePath(site: JekyllSite): string {
+    return site.path;
+  }
+
+  async build(site: JekyllSite, options: RunnerBuildOptions = {}): Promise<RunnerOutput> {
+    await this.delay(options.signal);
+
+    const profile = options.profile;
+    const sourceFiles = (await this.listSourceFiles(site.path))
+      .filter(file => profile?.drafts || !file.startsWith('_drafts/'));
+    const outputDir = path.join(site.path, profile?.destination || '_site');
+
+    await fs.emptyDir(outputDir);
+    await fs.writeFile(
+      path.join(outputDir, 'index.html'),
+      `<!DOCTYPE html>
+<html>
+<head><title>${site.name}</title></head>
+<body>
+<h1>${site.name}</h1>
+<ul>
+${sourceFiles.map(file => `  <li>${file}</li>`).join('\n')}
+</ul>
+</body>
+</html>
+`
+    );
+
+    const lines = [
+      `Fake build of ${site.name} (${profile?.jekyllEnv || 'development'}): ${sourceFiles.length} source file(s)`,
+      ' done.'
+    ];
+
+    // Leave metadata behind like Jekyll does, so cache handling can be exercised
+    if (options.incremental) {
+      await fs.writeJson(path.join(site.path, '.jekyll-metadata'), { files: sourceFiles });
+      lines.unshift('Incremental build: enabled');
+    }
+    lines.forEach(line => options.onOutput?.(line, 'stdout'));
+
+    return {
+      stdout: lines.join('\n') + '\n',
+      stderr: ''
+    };
+  }
+
+  async serve(site: JekyllSite, port: number): Promise<ServeHandle> {
+    const containerId = `fake-${site.id}`;
+    this.running.add(containerId);
+    return { containerId };
+  }
+
+  async stop(handle: ServeHandle): Promise<void> {
+    if (handle.containerId) {
+      this.running.delete(handle.containerId);
+    }
+  }
+
+  async isRunning(handle: ServeHandle): Promise<boolean> {
+    return !!handle.containerId && this.running.has(handle.containerId);
+  }
+
+  private delay(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const abortError = () => Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+
+      if (signal?.aborted) {
+        return reject(abortError());
+      }
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, this.buildDelay);
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private async listSourceFiles(dir: string, prefix: string = ''): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))) {
+      if (entry.name.startsWith('.') || entry.name.startsWith('_site')) continue;
+
+      const relativePath = path.posix.join(prefix, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.listSourceFiles(path.join(dir, entry.name), relativePath));
+      } else {
+        files.push(relativePath);
+      }
+    }
+
+    return files;
+  }
+}
+
+/**
+ * Pick the runner from the environment (JEKYLL_RUNNER=docker|local|fake)
+ */
+export function createJekyllRunner(): JekyllRunner {
+  const runner = (process.env.JEKYLL_RUNNER || 'docker').toLowerCase();
+
+  switch (runner) {
+    case 'local':
+      return new LocalJekyllRunner();
+    case 'fake':
+      return new FakeJekyllRunner(parseInt(process.env.FAKE_BUILD_DELAY_MS || '', 10) || 0);
+    case 'docker':
+      return new DockerJekyllRunner();
+    default:
+      console.warn(`Unknown JEKYLL_RUNNER "${runner}", falling back to docker`);
+      return new DockerJekyllRunner();
+  }
+}
@@ -0,0 +1,207 @@
+const SCHEMA_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isEqual = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+function typeOf(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  if (type === 'integer') {
+    return Number.isInteger(value);
+  }
+  if (type === 'number') {
+    return typeof value === 'number' && isFinite(value);
+  }
+  return typeOf(value) === type;
+}
+
+/**
+ * Check that a schema only uses types and shapes we understand. Returns the
+ * problems found.
+ */
+export function validateSchemaDefinition(schema: any, at: string = '#'): string[] {
+  if (typeof schema === 'boolean') {
+    return [];
+  }
+  if (!isPlainObject(schema)) {
+    return [`${at}: schema must be an object`];
+  }
+
+  const errors: string[] = [];
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  for (const type of types) {
+    if (!SCHEMA_TYPES.includes(type)) {
+      errors.push(`${at}: unknown type ${JSON.stringify(type)}`);
+    }
+  }
+
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    errors.push(`${at}: enum must be a list`);
+  }
+
+  if (schema.required !== undefined &&
+      (!Array.isArray(schema.required) || schema.required.some((key: any) => typeof key !== 'string'))) {
+    errors.push(`${at}: required must be a list of property names`);
+  }
+
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern, 'u');
+    } catch (error) {
+      errors.push(`${at}: pattern is not a valid regular expression`);
+    }
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      errors.push(`${at}: properties must be an object`);
+    } else {
+      for (const [key, property] of Object.entries(schema.properties)) {
+        errors.push(...validateSchemaDefinition(property, `${at}/properties/${key}`));
+      }
+    }
+  }
+
+  for (const keyword of ['items', 'additionalProperties']) {
+    if (schema[keyword] !== undefined) {
+      errors.push(...validateSchemaDefinition(schema[keyword], `${at}/${keyword}`));
+    }
+  }
+
+  for (const keyword of ['anyOf', 'oneOf']) {
+    if (schema[keyword] !== undefined) {
+      if (!Array.isArray(schema[keyword]) || schema[keyword].length === 0) {
+        errors.push(`${at}: ${keyword} must be a non-empty list`);
+      } else {
+        schema[keyword].forEach((option: any, index: number) => {
+          errors.push(...validateSchemaDefinition(option, `${at}/${keyword}/${index}`));
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a value against a JSON Schema. Covers what a data file form needs:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * min/maxItems, uniqueItems, min/maxLength, pattern, minimum, maximum,
+ * exclusiveMinimum/Maximum, anyOf and oneOf; other keywords are ignored.
+ * Errors are prefixed with the JSON pointer of the offending value, e.g.
+ * `/0/email: must be string`.
+ */
+export function validateJsonSchema(schema: any, value: any, at: string = ''): string[] {
+  if (schema === true || schema === undefined) {
+    return [];
+  }
+  if (schema === false) {
+    return [`${at || '/'}: is not allowed`];
+  }
+
+  const errors: string[] = [];
+  const where = at || '/';
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      // Other keywords would only repeat the problem
+      return [`${where}: must be ${types.join(' or ')}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => isEqual(option, value))) {
+    errors.push(`${where}: must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push(`${where}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${where}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${where}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${where}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${where}: must be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${where}: must be at most ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${where}: must be greater than ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${where}: must be less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${where}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${where}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      errors.push(`${where}: items must be unique`);
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(schema.items, item, `${at}/${index}`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties) ? schema.properties : {};
+
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (value[key] === undefined) {
+        errors.push(`${at}/${key}: is required`);
+      }
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        errors.push(...validateJsonSchema(properties[key], item, `${at}/${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}/${key}: is not allowed`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(schema.additionalProperties, item, `${at}/${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.anyOf) &&
+      !schema.anyOf.some((option: any) => validateJsonSchema(option, value, at).length === 0)) {
+    errors.push(`${where}: does not match any of the allowed shapes`);
+  }
+
+  if (Array.isArray(schema.oneOf) &&
+      schema.oneOf.filter((option: any) => validateJsonSchema(option, value, at).length === 0).length !== 1) {
+    errors.push(`${where}: must match exactly one of the allowed shapes`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,165 @@
+import JekyllManager from './jekyll-manager';
+import DataManager from './data-manager';
+import { formatETag } from './file-etag';
+import {
+  NAVIGATION_DATA_NAME,
+  NAVIGATION_INCLUDE,
+  NAVIGATION_ITEMS_INCLUDE,
+  NavigationItem,
+  NavigationMenus,
+  normalizeNavigationItems,
+  shouldWriteNavigationInclude,
+  toNavigationData,
+  toNavigationMenus
+} from './navigation';
+
+export interface NavigationState {
+  menus: NavigationMenus;
+  // Data file holding the menus, once there is one
+  path?: string;
+  hash?: string;
+}
+
+/**
+ * Menus of a site, stored in `_data/navigation.yml` and rendered by the
+ * `navigation.html` include. Saving menus also (re)writes that include
+ * unless the site has its own data-driven version.
+ */
+class NavigationManager {
+  private jekyllManager: JekyllManager;
+  private dataManager: DataManager;
+
+  constructor(jekyllManager: JekyllManager, dataManager: DataManager) {
+    this.jekyllManager = jekyllManager;
+    this.dataManager = dataManager;
+  }
+
+  async getNavigation(siteId: string): Promise<NavigationState> {
+    const file = await this.dataManager.getDataFile(siteId, NAVIGATION_DATA_NAME);
+    if (!file) {
+      return { menus: {} };
+    }
+    if (file.errors) {
+      throw new Error('Navigation data has errors');
+    }
+
+    return { menus: toNavigationMenus(file.data), path: file.path, hash: file.hash };
+  }
+
+  async getMenu(siteId: string, name: string): Promise<NavigationItem[] | undefined> {
+    const { menus } = await this.getNavigation(siteId);
+    return Object.prototype.hasOwnProperty.call(menus, name) ? menus[name] : undefined;
+  }
+
+  /**
+   * Replace all menus. `includeUpdated` tells whether the navigation
+   * include had to be written.
+   */
+  async saveNavigation(
+    siteId: string,
+    menus: NavigationMenus,
+    options: { ifMatch?: string } = {}
+  ): Promise<NavigationState & { includeUpdated: boolean }> {
+    const normalized: NavigationMenus = {};
+    for (const [name, items] of Object.entries(menus)) {
+      normalized[name] = normalizeNavigationItems(items);
+    }
+
+    const data = toNavigationData(normalized, await this.isKeptAsList(siteId));
+    const file = await this.dataManager.saveDataFile(siteId, NAVIGATION_DATA_NAME, data, options);
+    const includeUpdated = await this.writeIncludes(siteId);
+
+    return { menus: toNavigationMenus(file.data), path: file.path, hash: file.hash, includeUpdated };
+  }
+
+  /**
+   * Replace the items of one menu, adding it when it's new
+   */
+  async saveMenu(
+    siteId: string,
+    name: string,
+    items: NavigationItem[],
+    options: { ifMatch?: string } = {}
+  ): Promise<NavigationState & { includeUpdated: boolean }> {
+    const { menus, hash } = await this.getNavigation(siteId);
+    return this.saveNavigation(siteId, { ...menus, [name]: items }, { ifMatch: options.ifMatch ?? this.versionOf(hash) });
+  }
+
+  async deleteMenu(siteId: string, name: string, options: { ifMatch?: string } = {}): Promise<NavigationState> {
+    const { menus, hash } = await this.getNavigation(siteId);
+    if (!Object.prototype.hasOwnProperty.call(menus, name)) {
+      throw new Error('Menu not found');
+    }
+
+    const rest = { ...menus };
+    delete rest[name];
+    const data = toNavigationData(rest, await this.isKeptAsList(siteId));
+    const file = await this.dataManager.saveDataFile(siteId, NAVIGATION_DATA_NAME, data, {
+      ifMatch: options.ifMatch ?? this.versionOf(hash)
+    });
+
+    return { menus: toNavigationMenus(file.data), path: file.path, hash: file.hash };
+  }
+
+  /**
+   * Point the navigation include at the menus. A hand-made include that
+   * already reads `site.data.navigation` is left alone. Returns whether
+   * anything was written.
+   */
+  private async writeIncludes(siteId: string): Promise<boolean> {
+    const current = await this.readInclude(siteId, '_includes/navigation.html');
+    if (!shouldWriteNavigationInclude(current)) {
+      return false;
+    }
+
+    let written = false;
+    const includes: Array<[string, string]> = [
+      ['_includes/navigation-items.html', NAVIGATION_ITEMS_INCLUDE],
+      ['_includes/navigation.html', NAVIGATION_INCLUDE]
+    ];
+
+    for (const [filePath, content] of includes) {
+      if (await this.readInclude(siteId, filePath) !== content) {
+        await this.jekyllManager.updateFile(siteId, filePath, content);
+        written = true;
+      }
+    }
+
+    return written;
+  }
+
+  /**
+   * Whether the menus are stored as a plain list: the file is one already
+   * and a hand-made include reads it that way. Our include always takes a
+   * map of menus.
+   */
+  private async isKeptAsList(siteId: string): Promise<boolean> {
+    const file = await this.dataManager.getDataFile(siteId, NAVIGATION_DATA_NAME);
+    if (!file || !Array.isArray(file.data)) {
+      return false;
+    }
+
+    return !shouldWriteNavigationInclude(await this.readInclude(siteId, '_includes/navigation.html'));
+  }
+
+  /**
+   * If-Match value that keeps a read-modify-write of one menu from losing
+   * a concurrent change to another
+   */
+  private versionOf(hash: string | undefined): string | undefined {
+    return hash ? formatETag(hash) : undefined;
+  }
+
+  private async readInclude(siteId: string, filePath: string): Promise<string | null> {
+    try {
+      return await this.jekyllManager.readFile(siteId, filePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export default NavigationManager;
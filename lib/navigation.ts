@@ -0,0 +1,210 @@
+export interface NavigationItem {
+  title: string;
+  // Site path (`/about/`), anchor or absolute URL
+  url: string;
+  // Opens in a new tab; set for absolute URLs unless given
+  external?: boolean;
+  // Kept in the menu but not rendered
+  hidden?: boolean;
+  children?: NavigationItem[];
+  // Anything else (icon, class, ...) is kept for custom includes
+  [key: string]: any;
+}
+
+// Menu name (`main`, `footer`, ...) to its items, in display order
+export type NavigationMenus = Record<string, NavigationItem[]>;
+
+// Name of the data file holding the menus, `site.data.navigation`
+export const NAVIGATION_DATA_NAME = 'navigation';
+
+export const DEFAULT_MENU = 'main';
+
+// Levels of nested items, the top level included
+export const MAX_NAVIGATION_DEPTH = 3;
+
+const NAVIGATION_INCLUDE_MARKER = 'Generated by Jekyll Studio';
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isAbsoluteUrl = (url: string) => /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url);
+
+export function isValidMenuName(name: string): boolean {
+  return /^[a-z][a-z0-9_-]*$/i.test(name);
+}
+
+function validateItems(items: any, at: string, depth: number, errors: string[]): void {
+  if (!Array.isArray(items)) {
+    errors.push(`${at}: must be a list of items`);
+    return;
+  }
+
+  items.forEach((item, index) => {
+    const where = `${at}/${index}`;
+
+    if (!isPlainObject(item)) {
+      errors.push(`${where}: item must be an object`);
+      return;
+    }
+    if (typeof item.title !== 'string' || item.title.trim() === '') {
+      errors.push(`${where}/title: is required`);
+    }
+    if (typeof item.url !== 'string' || item.url.trim() === '') {
+      errors.push(`${where}/url: is required`);
+    } else if (!isAbsoluteUrl(item.url) && !item.url.startsWith('/') && !item.url.startsWith('#')) {
+      errors.push(`${where}/url: must start with "/" or "#", or be an absolute URL`);
+    }
+    for (const flag of ['external', 'hidden']) {
+      if (item[flag] !== undefined && typeof item[flag] !== 'boolean') {
+        errors.push(`${where}/${flag}: must be true or false`);
+      }
+    }
+    if (item.children !== undefined) {
+      if (depth >= MAX_NAVIGATION_DEPTH && !(Array.isArray(item.children) && item.children.length === 0)) {
+        errors.push(`${where}/children: menus nest at most ${MAX_NAVIGATION_DEPTH} levels deep`);
+      } else {
+        validateItems(item.children, `${where}/children`, depth + 1, errors);
+      }
+    }
+  });
+}
+
+/**
+ * Check the items of one menu. Errors are prefixed with the JSON pointer of
+ * the offending value.
+ */
+export function validateNavigationItems(items: any, at: string = ''): string[] {
+  const errors: string[] = [];
+  validateItems(items, at, 1, errors);
+  return errors;
+}
+
+/**
+ * Check a set of menus sent by a client. Returns the problems found.
+ */
+export function validateNavigationMenus(menus: any): string[] {
+  if (!isPlainObject(menus)) {
+    return ['menus must be an object of menu name to items'];
+  }
+
+  const errors: string[] = [];
+  for (const [name, items] of Object.entries(menus)) {
+    if (!isValidMenuName(name)) {
+      errors.push(`/${name}: menu names start with a letter and contain only letters, digits, dashes or underscores`);
+    } else {
+      errors.push(...validateNavigationItems(items, `/${name}`));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Items as they are stored: trimmed titles, `external` filled in for
+ * absolute URLs, empty child lists dropped
+ */
+export function normalizeNavigationItems(items: NavigationItem[]): NavigationItem[] {
+  return items.map(({ children, ...item }) => {
+    const normalized: NavigationItem = { ...item, title: item.title.trim(), url: item.url.trim() };
+
+    if (normalized.external === undefined && isAbsoluteUrl(normalized.url)) {
+      normalized.external = true;
+    }
+    if (children && children.length > 0) {
+      normalized.children = normalizeNavigationItems(children);
+    }
+
+    return normalized;
+  });
+}
+
+/**
+ * Menus from `site.data.navigation`. A plain list, the layout many themes
+ * use, is read as the main menu.
+ */
+export function toNavigationMenus(data: any): NavigationMenus {
+  if (Array.isArray(data)) {
+    return { [DEFAULT_MENU]: data };
+  }
+
+  const menus: NavigationMenus = {};
+  if (isPlainObject(data)) {
+    for (const [name, items] of Object.entries(data)) {
+      if (Array.isArray(items)) {
+        menus[name] = items;
+      }
+    }
+  }
+  return menus;
+}
+
+/**
+ * Data to store for a set of menus. With `asList` a file whose only menu is
+ * main stays a plain list, for theme includes that loop over
+ * `site.data.navigation` directly.
+ */
+export function toNavigationData(menus: NavigationMenus, asList: boolean): NavigationMenus | NavigationItem[] {
+  const names = Object.keys(menus);
+  return asList && names.length === 1 && names[0] === DEFAULT_MENU ? menus[DEFAULT_MENU] : menus;
+}
+
+/**
+ * Main menu for a new site: its titled pages, in the order given
+ */
+export function navigationFromPages(pages: Array<{ title?: string; permalink?: string; name?: string }>): NavigationItem[] {
+  return pages
+    .filter(page => page.title && (page.permalink || page.name))
+    .map(page => ({
+      title: page.title as string,
+      // Without a permalink Jekyll writes about.md to /about.html
+      url: page.permalink || `/${(page.name as string).replace(/\.(md|markdown)$/, '.html').replace(/^index\.html$/, '')}`
+    }));
+}
+
+// Renders one menu: {% include navigation.html menu="footer" %}, main by default
+export const NAVIGATION_INCLUDE = `{%- comment -%}
+  ${NAVIGATION_INCLUDE_MARKER} from _data/navigation.yml.
+  Edit the menus through the navigation API, or remove this comment to keep
+  your own changes to this file.
+{%- endcomment -%}
+{%- assign menu_name = include.menu | default: "${DEFAULT_MENU}" -%}
+{%- assign menu_items = site.data.navigation[menu_name] -%}
+{%- if menu_items -%}
+<nav class="site-nav site-nav-{{ menu_name }}" aria-label="{{ menu_name | capitalize }} navigation">
+  {% include navigation-items.html items=menu_items %}
+</nav>
+{%- endif -%}
+`;
+
+// One level of a menu, including itself for nested items
+export const NAVIGATION_ITEMS_INCLUDE = `{%- comment -%}
+  ${NAVIGATION_INCLUDE_MARKER}, used by navigation.html.
+{%- endcomment -%}
+<ul>
+  {%- for item in include.items -%}
+    {%- if item.hidden -%}{%- continue -%}{%- endif -%}
+    {%- assign item_start = item.url | slice: 0 -%}
+    {%- if item.external or item_start == "#" -%}
+      {%- assign item_href = item.url -%}
+    {%- else -%}
+      {%- assign item_href = item.url | relative_url -%}
+    {%- endif -%}
+    <li class="nav-item{% if page.url == item.url %} active{% endif %}">
+      <a href="{{ item_href }}"{% if item.external %} target="_blank" rel="noopener"{% endif %}{% if page.url == item.url %} aria-current="page"{% endif %}>{{ item.title | escape }}</a>
+      {%- if item.children and item.children.size > 0 -%}
+        {% include navigation-items.html items=item.children %}
+      {%- endif -%}
+    </li>
+  {%- endfor -%}
+</ul>
+`;
+
+/**
+ * Whether the navigation include may be (re)written from the menus: it is
+ * missing, was generated by us, or doesn't read the menus at all (like the
+ * old loop over `site.pages`)
+ */
+export function shouldWriteNavigationInclude(current: string | null): boolean {
+  return current === null ||
+    current.includes(NAVIGATION_INCLUDE_MARKER) ||
+    !current.includes('site.data.navigation');
+}
@@ -0,0 +1,428 @@
+import path from 'path';
+import JekyllManager from './jekyll-manager';
+import { parseContent, serializeContent, FrontMatterError } from './front-matter';
+import { slugify } from './slugify';
+import { getCollectionsDir } from './collections';
+
+export type PostStatus = 'published' | 'draft';
+
+export interface PostSummary {
+  // File name without extension: `2024-01-01-hello-world` or `hello-world` for drafts
+  id: string;
+  path: string;
+  status: PostStatus;
+  slug: string;
+  // YYYY-MM-DD, from the file name of published posts or a draft's front matter
+  date?: string;
+  title: string;
+  tags: string[];
+  categories: string[];
+  // Present when the front matter couldn't be parsed
+  errors?: FrontMatterError[];
+}
+
+export interface Post extends PostSummary {
+  frontMatter: Record<string, any>;
+  body: string;
+}
+
+export interface PostInput {
+  title?: string;
+  slug?: string;
+  // YYYY-MM-DD, optionally followed by a time
+  date?: string;
+  body?: string;
+  layout?: string;
+  tags?: string[];
+  categories?: string[];
+  // Any other front matter; on update it replaces the post's front matter
+  frontMatter?: Record<string, any>;
+}
+
+const POST_EXTENSIONS = ['.md', '.markdown', '.html'];
+
+// Published posts are named YYYY-MM-DD-slug
+const POST_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})-(.+)$/;
+
+/**
+ * Today's date as YYYY-MM-DD in server time
+ */
+function today(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Day part of a date given by a client or front matter, undefined if invalid
+ */
+function toDay(value: any): string | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.toISOString().slice(0, 10);
+  }
+
+  const match = typeof value === 'string' && /^(\d{4})-(\d{2})-(\d{2})\b/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.getUTCDate() === Number(match[3]) ? match[0] : undefined;
+}
+
+/**
+ * Jekyll accepts tags and categories as a list or a space separated string
+ */
+function toList(value: any): string[] {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== null && item !== undefined).map(String);
+  }
+  if (typeof value === 'string') {
+    return value.split(/\s+/).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Check a post body sent by a client. Returns the problems found.
+ */
+export function validatePostInput(input: any): string[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return ['Post must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  for (const field of ['title', 'slug', 'date', 'body', 'layout']) {
+    if (input[field] !== undefined && typeof input[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (typeof input.date === 'string' && !toDay(input.date)) {
+    errors.push('date must start with a valid YYYY-MM-DD date');
+  }
+
+  for (const field of ['tags', 'categories']) {
+    if (input[field] !== undefined &&
+        (!Array.isArray(input[field]) || !input[field].every((item: any) => typeof item === 'string'))) {
+      errors.push(`${field} must be a list of strings`);
+    }
+  }
+
+  if (input.frontMatter !== undefined &&
+      (!input.frontMatter || typeof input.frontMatter !== 'object' || Array.isArray(input.frontMatter))) {
+    errors.push('frontMatter must be an object');
+  }
+
+  return errors;
+}
+
+/**
+ * Keep only the fields a post input is made of
+ */
+export function pickPostInput(input: any): PostInput {
+  const fields: Array<keyof PostInput> = ['title', 'slug', 'date', 'body', 'layout', 'tags', 'categories', 'frontMatter'];
+  const picked: any = {};
+
+  for (const field of fields) {
+    if (input[field] !== undefined) {
+      picked[field] = input[field];
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Posts and drafts of a site: slugged file names, front matter and moving
+ * posts between `_drafts` and `_posts`. Files go through the JekyllManager
+ * so the usual file events fire.
+ */
+class PostManager {
+  private jekyllManager: JekyllManager;
+
+  constructor(jekyllManager: JekyllManager) {
+    this.jekyllManager = jekyllManager;
+  }
+
+  /**
+   * Posts and drafts, newest first
+   */
+  async listPosts(siteId: string, status?: PostStatus): Promise<PostSummary[]> {
+    const folders = await this.getFolders(siteId);
+    const statuses: PostStatus[] = status ? [status] : ['published', 'draft'];
+    const posts: PostSummary[] = [];
+
+    for (const postStatus of statuses) {
+      const folder = folders[postStatus];
+      let files: any[] = [];
+      try {
+        files = await this.jekyllManager.listFiles(siteId, folder);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      for (const file of files) {
+        if (file.type !== 'file' || !POST_EXTENSIONS.includes(path.extname(file.name).toLowerCase())) {
+          continue;
+        }
+
+        const { frontMatter, body, ...summary } = await this.readPost(siteId, postStatus, `${folder}/${file.name}`);
+        posts.push(summary);
+      }
+    }
+
+    return posts.sort((a, b) => (b.date || '').localeCompare(a.date || '') || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * One post or draft with its front matter and body
+   */
+  async getPost(siteId: string, postId: string): Promise<Post | undefined> {
+    const found = await this.findPost(siteId, postId);
+    return found && this.readPost(siteId, found.status, found.path);
+  }
+
+  /**
+   * Write a new post, or a draft when `draft` is set
+   */
+  async createPost(siteId: string, input: PostInput, options: { draft?: boolean } = {}): Promise<Post> {
+    if (!input.title || typeof input.title !== 'string') {
+      throw new Error('Title is required');
+    }
+
+    const slug = slugify(input.slug || input.title);
+    if (!slug) {
+      throw new Error('Title or slug must contain letters or digits');
+    }
+
+    if (input.date !== undefined && !toDay(input.date)) {
+      throw new Error('Invalid post date');
+    }
+
+    const status: PostStatus = options.draft ? 'draft' : 'published';
+    const folders = await this.getFolders(siteId);
+    const fileName = status === 'published' ? `${toDay(input.date) || today()}-${slug}.md` : `${slug}.md`;
+    const filePath = `${folders[status]}/${fileName}`;
+
+    if (await this.exists(siteId, filePath)) {
+      throw new Error('Post already exists');
+    }
+
+    const frontMatter: Record<string, any> = {
+      layout: input.layout || 'post',
+      title: input.title,
+      ...(input.date ? { date: input.date } : {}),
+      ...(input.categories ? { categories: input.categories } : {}),
+      ...(input.tags ? { tags: input.tags } : {}),
+      ...(input.frontMatter || {})
+    };
+
+    const { source } = serializeContent(frontMatter, `\n${input.body || ''}`);
+    await this.jekyllManager.updateFile(siteId, filePath, source as string);
+
+    return this.readPost(siteId, status, filePath);
+  }
+
+  /**
+   * Change a post's front matter and/or body. A new `slug` or `date`
+   * renames the file; a new title alone keeps the URL.
+   */
+  async updatePost(siteId: string, postId: string, input: PostInput, options: { ifMatch?: string } = {}): Promise<Post> {
+    const found = await this.findPost(siteId, postId);
+    if (!found) {
+      throw new Error('Post not found');
+    }
+
+    const post = await this.readPost(siteId, found.status, found.path);
+    if (post.errors) {
+      throw new Error('Post has malformed front matter');
+    }
+
+    if (input.date !== undefined && !toDay(input.date)) {
+      throw new Error('Invalid post date');
+    }
+
+    const slug = input.slug !== undefined ? slugify(input.slug) : post.slug;
+    if (!slug) {
+      throw new Error('Title or slug must contain letters or digits');
+    }
+
+    const frontMatter: Record<string, any> = { ...(input.frontMatter || post.frontMatter) };
+    for (const field of ['title', 'layout', 'date', 'tags', 'categories'] as const) {
+      if (input[field] !== undefined) {
+        frontMatter[field] = input[field];
+      }
+    }
+
+    const original = await this.jekyllManager.readFile(siteId, found.path);
+    const { source } = serializeContent(frontMatter, input.body !== undefined ? input.body : post.body, original);
+
+    // A published post without any date keeps its file name
+    const day = toDay(input.date) || post.date;
+    if (found.status === 'published' && !day && slug !== post.slug) {
+      throw new Error('Post needs a date to be renamed');
+    }
+
+    const fileName = found.status === 'draft'
+      ? `${slug}${path.extname(found.path)}`
+      : day ? `${day}-${slug}${path.extname(found.path)}` : path.basename(found.path);
+    const filePath = `${path.posix.dirname(found.path)}/${fileName}`;
+
+    if (filePath === found.path) {
+      await this.jekyllManager.updateFile(siteId, filePath, source as string, options);
+    } else {
+      await this.jekyllManager.applyFileBatch(siteId, [
+        { op: 'write', path: found.path, content: source as string, ifMatch: options.ifMatch },
+        { op: 'move', from: found.path, to: filePath }
+      ]);
+    }
+
+    return this.readPost(siteId, found.status, filePath);
+  }
+
+  async deletePost(siteId: string, postId: string, options: { ifMatch?: string } = {}): Promise<void> {
+    const found = await this.findPost(siteId, postId);
+    if (!found) {
+      throw new Error('Post not found');
+    }
+
+    await this.jekyllManager.deleteFile(siteId, found.path, options);
+  }
+
+  /**
+   * Move a draft to `_posts`, dated `date` (default today). A `date` in the
+   * draft's front matter is updated to match.
+   */
+  async publishPost(siteId: string, postId: string, date?: string): Promise<Post> {
+    const found = await this.findPost(siteId, postId);
+    if (!found) {
+      throw new Error('Post not found');
+    }
+    if (found.status === 'published') {
+      throw new Error('Post is already published');
+    }
+    if (date !== undefined && !toDay(date)) {
+      throw new Error('Invalid post date');
+    }
+
+    const post = await this.readPost(siteId, 'draft', found.path);
+    const day = toDay(date) || today();
+    const folders = await this.getFolders(siteId);
+    const filePath = `${folders.published}/${day}-${post.slug}${path.extname(found.path)}`;
+
+    if (await this.exists(siteId, filePath)) {
+      throw new Error('Post already exists');
+    }
+
+    const operations: any[] = [{ op: 'move', from: found.path, to: filePath }];
+
+    if (!post.errors && (post.frontMatter.date !== undefined || date !== undefined)) {
+      const original = await this.jekyllManager.readFile(siteId, found.path);
+      const { source } = serializeContent({ ...post.frontMatter, date: date || day }, post.body, original);
+      operations.push({ op: 'write', path: filePath, content: source });
+    }
+
+    await this.jekyllManager.applyFileBatch(siteId, operations);
+    return this.readPost(siteId, 'published', filePath);
+  }
+
+  /**
+   * Move a published post back to `_drafts`, dropping the date prefix
+   */
+  async unpublishPost(siteId: string, postId: string): Promise<Post> {
+    const found = await this.findPost(siteId, postId);
+    if (!found) {
+      throw new Error('Post not found');
+    }
+    if (found.status === 'draft') {
+      throw new Error('Post is not published');
+    }
+
+    const post = await this.readPost(siteId, 'published', found.path);
+    const folders = await this.getFolders(siteId);
+    const filePath = `${folders.draft}/${post.slug}${path.extname(found.path)}`;
+
+    if (await this.exists(siteId, filePath)) {
+      throw new Error('Post already exists');
+    }
+
+    await this.jekyllManager.moveFile(siteId, found.path, filePath);
+    return this.readPost(siteId, 'draft', filePath);
+  }
+
+  /**
+   * `_posts` and `_drafts`, inside `collections_dir` when the site sets one
+   * that stays inside the site
+   */
+  private async getFolders(siteId: string): Promise<Record<PostStatus, string>> {
+    const config = await this.jekyllManager.readSiteConfig(siteId);
+    const base = getCollectionsDir(config);
+
+    return {
+      published: path.posix.join(base, '_posts'),
+      draft: path.posix.join(base, '_drafts')
+    };
+  }
+
+  private async findPost(siteId: string, postId: string): Promise<{ status: PostStatus; path: string } | undefined> {
+    // Ids are plain file names, never paths
+    if (!postId || postId !== path.basename(postId) || postId.startsWith('.')) {
+      return undefined;
+    }
+
+    const folders = await this.getFolders(siteId);
+    for (const status of ['published', 'draft'] as PostStatus[]) {
+      for (const ext of POST_EXTENSIONS) {
+        const filePath = `${folders[status]}/${postId}${ext}`;
+        if (await this.exists(siteId, filePath)) {
+          return { status, path: filePath };
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private async readPost(siteId: string, status: PostStatus, filePath: string): Promise<Post> {
+    const source = await this.jekyllManager.readFile(siteId, filePath);
+    const { frontMatter, body, errors } = parseContent(source);
+    const id = path.basename(filePath, path.extname(filePath));
+    const match = POST_FILE_PATTERN.exec(id);
+    const data = frontMatter || {};
+
+    const slug = status === 'published' && match ? match[2] : id;
+    const date = (status === 'published' && match ? match[1] : undefined) || toDay(data.date);
+
+    return {
+      id,
+      path: filePath,
+      status,
+      slug,
+      date,
+      title: typeof data.title === 'string' ? data.title : slug.replace(/-/g, ' '),
+      tags: toList(data.tags),
+      categories: toList(data.categories || data.category),
+      ...(errors.length > 0 ? { errors } : {}),
+      frontMatter: data,
+      body
+    };
+  }
+
+  private async exists(siteId: string, filePath: string): Promise<boolean> {
+    try {
+      await this.jekyllManager.statFile(siteId, filePath);
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+export default PostManager;
@@ -0,0 +1,202 @@
+import JekyllManager from './jekyll-manager';
+import { formatETag, hashContent } from './file-etag';
+import { MAX_BATCH_OPERATIONS } from './file-batch';
+import { isFileExtensionAllowed, isSitePathTarget } from './file-rules';
+import { FileTreeNode, globToRegExp } from './site-tree';
+import {
+  MAX_SEARCH_FILE_SIZE,
+  MAX_SEARCH_MATCHES,
+  SEARCH_TIME_LIMIT,
+  SearchMatch,
+  SearchQuery,
+  createSearchPattern,
+  findMatches,
+  replaceMatches
+} from './site-search';
+import { createUnifiedDiff } from './text-diff';
+
+export interface FileSearchResult {
+  path: string;
+  matches: SearchMatch[];
+  // Version of the file that was searched, the value behind its ETag
+  hash: string;
+}
+
+export interface SearchResult {
+  files: FileSearchResult[];
+  totalMatches: number;
+  filesSearched: number;
+  // Stopped at MAX_SEARCH_MATCHES
+  truncated: boolean;
+}
+
+export interface FileReplacement {
+  path: string;
+  count: number;
+  // Unified diff of the change, only in previews
+  diff?: string;
+  // Version before the change; send it back in `versions` when applying
+  hash: string;
+  // Version after the change
+  newHash: string;
+}
+
+export interface ReplaceOptions {
+  // Only compute the changes and their diffs
+  preview?: boolean;
+  // Limit the change to these files, e.g. the ones picked from a preview
+  paths?: string[];
+  // Hashes per path from a preview; files changed since then fail the replace
+  versions?: Record<string, string>;
+}
+
+/**
+ * Search and replace across a site's text sources. Files are found the way
+ * the file tree lists them and limited to what the files API may edit;
+ * replacements are written as one batch so they land all or nothing.
+ */
+class SearchManager {
+  private jekyllManager: JekyllManager;
+
+  constructor(jekyllManager: JekyllManager) {
+    this.jekyllManager = jekyllManager;
+  }
+
+  async search(siteId: string, query: SearchQuery): Promise<SearchResult> {
+    const pattern = createSearchPattern(query);
+    const files = await this.listSearchableFiles(siteId, query);
+    // One time budget for matching across all files
+    const deadline = Date.now() + SEARCH_TIME_LIMIT;
+    const result: SearchResult = { files: [], totalMatches: 0, filesSearched: 0, truncated: false };
+
+    for (const filePath of files) {
+      const source = await this.readText(siteId, filePath);
+      if (source === undefined) {
+        continue;
+      }
+      result.filesSearched++;
+
+      const remaining = MAX_SEARCH_MATCHES - result.totalMatches;
+      const matches = findMatches(source, pattern, query.scope, remaining, deadline - Date.now());
+      if (matches.length > 0) {
+        result.files.push({ path: filePath, matches, hash: hashContent(source) });
+        result.totalMatches += matches.length;
+      }
+
+      if (result.totalMatches >= MAX_SEARCH_MATCHES) {
+        result.truncated = true;
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  async replace(
+    siteId: string,
+    query: SearchQuery,
+    replacement: string,
+    options: ReplaceOptions = {}
+  ): Promise<{ files: FileReplacement[]; totalReplacements: number; applied: boolean }> {
+    const pattern = createSearchPattern(query);
+    const paths = options.paths ? new Set(options.paths) : undefined;
+    const files = (await this.listSearchableFiles(siteId, query)).filter(file => !paths || paths.has(file));
+
+    const replacements: FileReplacement[] = [];
+    const contents = new Map<string, string>();
+    // One time budget for matching across all files
+    const deadline = Date.now() + SEARCH_TIME_LIMIT;
+
+    for (const filePath of files) {
+      const source = await this.readText(siteId, filePath);
+      if (source === undefined) {
+        continue;
+      }
+
+      const { content, count } = replaceMatches(source, pattern, replacement, {
+        ...query,
+        timeout: deadline - Date.now()
+      });
+      if (count === 0 || content === source) {
+        continue;
+      }
+
+      replacements.push({
+        path: filePath,
+        count,
+        ...(options.preview ? { diff: createUnifiedDiff(filePath, source, content) } : {}),
+        hash: hashContent(source),
+        newHash: hashContent(content)
+      });
+      contents.set(filePath, content);
+    }
+
+    const totalReplacements = replacements.reduce((total, file) => total + file.count, 0);
+
+    if (options.preview || replacements.length === 0) {
+      return { files: replacements, totalReplacements, applied: false };
+    }
+
+    if (replacements.length > MAX_BATCH_OPERATIONS) {
+      throw new Error('Too many files to replace at once');
+    }
+
+    // Each write only goes ahead if the file is still what was previewed
+    // (or, without a preview, what was just read)
+    try {
+      await this.jekyllManager.applyFileBatch(siteId, replacements.map(file => ({
+        op: 'write' as const,
+        path: file.path,
+        content: contents.get(file.path) as string,
+        ifMatch: formatETag((options.versions && options.versions[file.path]) || file.hash)
+      })));
+    } catch (error: any) {
+      if (error.operation !== undefined && replacements[error.operation]) {
+        error.path = replacements[error.operation].path;
+      }
+      throw error;
+    }
+
+    return { files: replacements, totalReplacements, applied: true };
+  }
+
+  /**
+   * Site files a search covers: what the file tree lists (no build output
+   * or caches) that the files API may edit, filtered by the query's globs
+   */
+  private async listSearchableFiles(siteId: string, query: SearchQuery): Promise<string[]> {
+    const tree = await this.jekyllManager.getFileTree(siteId, { hash: false, ignore: query.exclude });
+    const include = (query.include || []).map(globToRegExp);
+    const files: string[] = [];
+
+    const visit = (node: FileTreeNode) => {
+      if (node.type === 'directory') {
+        (node.children || []).forEach(visit);
+        return;
+      }
+
+      const matchesInclude = include.length === 0 ||
+        include.some(pattern => pattern.test(node.path) || pattern.test(node.name));
+
+      if (matchesInclude &&
+          isSitePathTarget(node.path) &&
+          isFileExtensionAllowed(node.path) &&
+          (node.size || 0) <= MAX_SEARCH_FILE_SIZE) {
+        files.push(node.path);
+      }
+    };
+
+    visit(tree);
+    return files;
+  }
+
+  /**
+   * Text of a file, undefined for binary content
+   */
+  private async readText(siteId: string, filePath: string): Promise<string | undefined> {
+    const source = await this.jekyllManager.readFile(siteId, filePath);
+    return source.includes('\u0000') ? undefined : source;
+  }
+}
+
+export default SearchManager;
@@ -0,0 +1,201 @@
+import yaml, { Document, YAMLMap, isMap, isNode, isScalar } from 'yaml';
+
+export interface ConfigChange {
+  // Dotted path of the changed key, e.g. `defaults` or `sass.style`
+  key: string;
+  from?: any;
+  to?: any;
+  // Whether built pages can differ; serve-only settings just need a restart
+  requiresRebuild: boolean;
+}
+
+export interface ConfigSyntaxError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ConfigPatchResult {
+  // Config after the patch; undefined when the file or patch was rejected
+  config?: Record<string, any>;
+  source?: string;
+  changes: ConfigChange[];
+  errors: string[];
+}
+
+// Settings only `jekyll serve` reads, they don't change the generated site
+const SERVE_ONLY_KEYS = new Set([
+  'port',
+  'host',
+  'livereload',
+  'livereload_port',
+  'livereload_min_delay',
+  'livereload_max_delay',
+  'livereload_ignore',
+  'open_url',
+  'detach',
+  'show_dir_listing',
+  'ssl_cert',
+  'ssl_key',
+  'watch',
+  'force_polling',
+  'skip_initial_build'
+]);
+
+const PERMALINK_STYLES = ['date', 'pretty', 'ordinal', 'weekdate', 'none'];
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isStringList = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isEqual = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Check the Jekyll settings we know the shape of. Only `keys` are checked
+ * when given, so a patch isn't blocked by problems elsewhere in the file.
+ */
+export function validateSiteConfig(config: Record<string, any>, keys?: string[]): string[] {
+  const errors: string[] = [];
+  const has = (key: string) => (!keys || keys.includes(key)) && config[key] !== undefined && config[key] !== null;
+
+  if (has('url') && (typeof config.url !== 'string' ||
+      (config.url !== '' && (!/^https?:\/\/[^\s/]+(\/\S*)?$/.test(config.url) || config.url.endsWith('/'))))) {
+    errors.push('url must be an absolute http(s) URL without a trailing slash');
+  }
+
+  if (has('baseurl') && (typeof config.baseurl !== 'string' ||
+      (config.baseurl !== '' && (!config.baseurl.startsWith('/') || config.baseurl.endsWith('/') || /\s/.test(config.baseurl))))) {
+    errors.push('baseurl must be empty or start with "/" without a trailing slash');
+  }
+
+  if (has('permalink') && (typeof config.permalink !== 'string' ||
+      (!PERMALINK_STYLES.includes(config.permalink) && !config.permalink.startsWith('/')))) {
+    errors.push(`permalink must start with "/" or be one of ${PERMALINK_STYLES.join(', ')}`);
+  }
+
+  if (has('collections')) {
+    const collections = config.collections;
+    const validList = isStringList(collections);
+    const validMap = isPlainObject(collections) &&
+      Object.values(collections).every(settings => settings === null || isPlainObject(settings));
+    const names = validList ? collections : validMap ? Object.keys(collections) : [];
+
+    if (!validList && !validMap) {
+      errors.push('collections must be a list of names or a map of name to settings');
+    } else if (!names.every((name: string) => /^[A-Za-z0-9_-]+$/.test(name))) {
+      errors.push('collection names may only contain letters, digits, dashes and underscores');
+    }
+  }
+
+  if (has('defaults')) {
+    const valid = Array.isArray(config.defaults) && config.defaults.every((entry: any) =>
+      isPlainObject(entry) &&
+      isPlainObject(entry.scope) &&
+      (entry.scope.path === undefined || typeof entry.scope.path === 'string') &&
+      (entry.scope.type === undefined || typeof entry.scope.type === 'string') &&
+      isPlainObject(entry.values)
+    );
+    if (!valid) {
+      errors.push('defaults must be a list of { scope: { path, type }, values } entries');
+    }
+  }
+
+  if (has('plugins') && (!isStringList(config.plugins) || config.plugins.some((name: string) => !/^[\w.-]+$/.test(name)))) {
+    errors.push('plugins must be a list of gem names');
+  }
+
+  for (const key of ['exclude', 'include']) {
+    if (has(key) && !isStringList(config[key])) {
+      errors.push(`${key} must be a list of paths`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the text of a _config.yml into a YAML document, collecting syntax
+ * errors. An empty file is fine, a top level that isn't a mapping is not.
+ */
+export function parseSiteConfig(source: string): { document: Document; errors: ConfigSyntaxError[] } {
+  const document = yaml.parseDocument(source);
+  const errors: ConfigSyntaxError[] = document.errors.map(error => ({
+    message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+    line: error.linePos ? error.linePos[0].line : undefined,
+    column: error.linePos ? error.linePos[0].col : undefined
+  }));
+
+  if (errors.length === 0 && document.contents !== null && !isMap(document.contents)) {
+    errors.push({ message: '_config.yml must be a mapping of settings', line: 1 });
+  }
+
+  return { document, errors };
+}
+
+/**
+ * Deep-merge a patch into a YAML map. Objects merge key by key, null
+ * removes a key, anything else replaces the value. Records what changed.
+ */
+function mergeIntoMap(document: Document, map: YAMLMap, patch: Record<string, any>, prefix: string, changes: ConfigChange[]): void {
+  for (const [key, value] of Object.entries(patch)) {
+    const dottedKey = prefix ? `${prefix}.${key}` : key;
+    const topKey = dottedKey.split('.')[0];
+    const current: any = map.get(key, true);
+    const before = isNode(current) ? current.toJSON() : current;
+
+    if (value === null) {
+      if (map.has(key)) {
+        map.delete(key);
+        changes.push({ key: dottedKey, from: before, requiresRebuild: !SERVE_ONLY_KEYS.has(topKey) });
+      }
+    } else if (isPlainObject(value) && isMap(current)) {
+      mergeIntoMap(document, current, value, dottedKey, changes);
+    } else if (!map.has(key) || !isEqual(before, value)) {
+      const node: any = document.createNode(value);
+      if (isNode(current)) {
+        node.comment = current.comment;
+        node.commentBefore = current.commentBefore;
+      }
+      // Keep the quoting style of a string that was edited
+      if (isScalar(current) && isScalar(node) && typeof value === 'string') {
+        node.type = current.type;
+      }
+      map.set(key, node);
+      changes.push({ key: dottedKey, from: before, to: value, requiresRebuild: !SERVE_ONLY_KEYS.has(topKey) });
+    }
+  }
+}
+
+/**
+ * Apply a merge patch to the text of a _config.yml, keeping comments, key
+ * order and formatting of everything the patch doesn't touch
+ */
+export function applyConfigPatch(source: string, patch: Record<string, any>): ConfigPatchResult {
+  if (!isPlainObject(patch)) {
+    return { changes: [], errors: ['Config patch must be an object'] };
+  }
+
+  const { document, errors: syntaxErrors } = parseSiteConfig(source);
+  if (syntaxErrors.length > 0) {
+    return {
+      changes: [],
+      errors: syntaxErrors.map(error => `_config.yml${error.line ? ` line ${error.line}` : ''}: ${error.message}`)
+    };
+  }
+
+  if (document.contents === null) {
+    document.contents = document.createNode({}) as any;
+  }
+
+  const changes: ConfigChange[] = [];
+  mergeIntoMap(document, document.contents as YAMLMap, patch, '', changes);
+
+  const config = document.toJS() || {};
+  const errors = validateSiteConfig(config, Object.keys(patch));
+  if (errors.length > 0) {
+    return { changes, errors };
+  }
+
+  return { config, source: document.toString({ lineWidth: 0 }), changes, errors: [] };
+}
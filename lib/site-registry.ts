@@ -0,0 +1,150 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createClient } from 'redis';
+import type { JekyllSite } from './jekyll-manager';
+
+/**
+ * Durable store for site records.
+ *
+ * Implementations only need to persist plain records; `JekyllManager` keeps
+ * the live copies in memory and writes through on every change. New backends
+ * (Postgres, SQLite, ...) just implement these three methods.
+ */
+export interface SiteRegistry {
+  load(): Promise<JekyllSite[]>;
+  save(site: JekyllSite): Promise<void>;
+  remove(siteId: string): Promise<void>;
+}
+
+/**
+ * Turn a stored record back into a site with proper Date fields
+ */
+function reviveSite(record: any): JekyllSite {
+  return {
+    ...record,
+    createdAt: new Date(record.createdAt),
+    lastBuilt: record.lastBuilt ? new Date(record.lastBuilt) : undefined
+  };
+}
+
+// Pending write per registry file, shared by every registry using that file
+const jsonWriteQueues: Map<string, Promise<void>> = new Map();
+
+/**
+ * Registry backed by a single JSON file (default: projects/.studio/sites.json).
+ *
+ * Every write re-reads the file and changes only its own record, so
+ * registries sharing the file (several manager instances or processes)
+ * don't overwrite each other's sites.
+ */
+export class JsonSiteRegistry implements SiteRegistry {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<JekyllSite[]> {
+    return Array.from((await this.readRecords()).values());
+  }
+
+  save(site: JekyllSite): Promise<void> {
+    return this.update(records => records.set(site.id, { ...site }));
+  }
+
+  remove(siteId: string): Promise<void> {
+    return this.update(records => records.delete(siteId));
+  }
+
+  private async readRecords(): Promise<Map<string, JekyllSite>> {
+    const records = new Map<string, JekyllSite>();
+
+    if (await fs.pathExists(this.filePath)) {
+      const data = await fs.readJson(this.filePath);
+      for (const record of data.sites || []) {
+        records.set(record.id, reviveSite(record));
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Serialize writes and replace the file atomically so a crash mid-write
+   * never leaves a truncated registry behind
+   */
+  private update(change: (records: Map<string, JekyllSite>) => void): Promise<void> {
+    const write = async () => {
+      const records = await this.readRecords();
+      change(records);
+
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.ensureDir(path.dirname(this.filePath));
+      await fs.writeJson(tmpPath, { sites: Array.from(records.values()) }, { spaces: 2 });
+      await fs.move(tmpPath, this.filePath, { overwrite: true });
+    };
+
+    const queued = (jsonWriteQueues.get(this.filePath) || Promise.resolve()).then(write, write);
+    jsonWriteQueues.set(this.filePath, queued);
+    return queued;
+  }
+}
+
+/**
+ * Registry backed by a Redis hash (one field per site ID)
+ */
+export class RedisSiteRegistry implements SiteRegistry {
+  private client: ReturnType<typeof createClient>;
+  private connecting: Promise<unknown> | null = null;
+  private key: string;
+
+  constructor(url: string, key: string = 'jekyll-studio:sites') {
+    this.client = createClient({ url });
+    this.client.on('error', (error) => console.error('Redis site registry error:', error));
+    this.key = key;
+  }
+
+  async load(): Promise<JekyllSite[]> {
+    await this.connect();
+    const entries = await this.client.hGetAll(this.key);
+    return Object.values(entries).map(value => reviveSite(JSON.parse(value as string)));
+  }
+
+  async save(site: JekyllSite): Promise<void> {
+    await this.connect();
+    await this.client.hSet(this.key, site.id, JSON.stringify(site));
+  }
+
+  async remove(siteId: string): Promise<void> {
+    await this.connect();
+    await this.client.hDel(this.key, siteId);
+  }
+
+  private connect(): Promise<unknown> {
+    if (!this.connecting) {
+      this.connecting = this.client.connect();
+    }
+    return this.connecting;
+  }
+}
+
+/**
+ * Pick the registry backend from the environment (SITE_REGISTRY=json|redis)
+ */
+export function createSiteRegistry(projectsDir: string): SiteRegistry {
+  const driver = (process.env.SITE_REGISTRY || 'json').toLowerCase();
+
+  if (driver === 'redis') {
+    const url = process.env.REDIS_URL ||
+      `redis://${process.env.REDIS_HOST || 'localhost'}:${process.env.REDIS_PORT || 6379}`;
+    return new RedisSiteRegistry(url);
+  }
+
+  if (driver !== 'json') {
+    console.warn(`Unknown SITE_REGISTRY "${driver}", falling back to JSON registry`);
+  }
+
+  return new JsonSiteRegistry(
+    process.env.SITE_REGISTRY_PATH || path.join(projectsDir, '.studio', 'sites.json')
+  );
+}
@@ -0,0 +1,227 @@
+import vm from 'vm';
+import { getFrontMatterLength } from './front-matter';
+
+export type SearchScope = 'all' | 'frontMatter' | 'body';
+
+export interface SearchQuery {
+  query: string;
+  // JavaScript regular expression; ^ and $ match at line ends
+  regex?: boolean;
+  ignoreCase?: boolean;
+  // Globs (`_posts/**`, `*.md`) of files to search, all when empty
+  include?: string[];
+  exclude?: string[];
+  // Part of content files to look in; files without front matter are all body
+  scope?: SearchScope;
+}
+
+export interface SearchMatch {
+  // 1-based position of the match in the file
+  line: number;
+  column: number;
+  match: string;
+  // Whole line the match starts on, cut at MAX_LINE_PREVIEW characters
+  text: string;
+  section: 'frontMatter' | 'body';
+}
+
+export const MAX_QUERY_LENGTH = 500;
+export const MAX_SEARCH_MATCHES = 1000;
+// Bigger files are skipped, they are not hand-written sources
+export const MAX_SEARCH_FILE_SIZE = 1024 * 1024;
+// Milliseconds one search or replace may spend matching, so a pattern that
+// backtracks for ages can't block the server
+export const SEARCH_TIME_LIMIT = 2000;
+
+const MAX_LINE_PREVIEW = 300;
+
+const SEARCH_SCOPES: SearchScope[] = ['all', 'frontMatter', 'body'];
+
+const isStringList = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const timeLimitContext = vm.createContext({});
+const timeLimitScript = new vm.Script('run()');
+
+/**
+ * Run matching code, giving up after `timeout` ms. A script timeout also
+ * interrupts a regular expression that is stuck backtracking.
+ */
+function runWithTimeLimit<T>(run: () => T, timeout: number): T {
+  if (timeout <= 0) {
+    throw new Error('Search took too long');
+  }
+
+  timeLimitContext.run = run;
+  try {
+    return timeLimitScript.runInContext(timeLimitContext, { timeout: Math.ceil(timeout) });
+  } catch (error: any) {
+    if (error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error('Search took too long');
+    }
+    throw error;
+  } finally {
+    timeLimitContext.run = undefined;
+  }
+}
+
+/**
+ * Check a search body sent by a client. Returns the problems found.
+ */
+export function validateSearchQuery(input: any): string[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return ['Search must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof input.query !== 'string' || input.query === '') {
+    errors.push('query is required');
+  } else if (input.query.length > MAX_QUERY_LENGTH) {
+    errors.push(`query must be at most ${MAX_QUERY_LENGTH} characters`);
+  } else if (input.regex === true) {
+    try {
+      new RegExp(input.query, 'gmu');
+    } catch (error: any) {
+      errors.push(`query is not a valid regular expression: ${error.message}`);
+    }
+  }
+
+  for (const flag of ['regex', 'ignoreCase']) {
+    if (input[flag] !== undefined && typeof input[flag] !== 'boolean') {
+      errors.push(`${flag} must be true or false`);
+    }
+  }
+
+  for (const field of ['include', 'exclude']) {
+    if (input[field] !== undefined && !isStringList(input[field])) {
+      errors.push(`${field} must be a list of globs`);
+    }
+  }
+
+  if (input.scope !== undefined && !SEARCH_SCOPES.includes(input.scope)) {
+    errors.push(`scope must be one of ${SEARCH_SCOPES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Only the search fields of a validated body
+ */
+export function pickSearchQuery(input: any): SearchQuery {
+  const { query, regex, ignoreCase, include, exclude, scope } = input;
+  return { query, regex, ignoreCase, include, exclude, scope };
+}
+
+export function createSearchPattern(query: SearchQuery): RegExp {
+  const source = query.regex ? query.query : query.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, `gmu${query.ignoreCase ? 'i' : ''}`);
+}
+
+/**
+ * Start and end of the part of a file a scope covers
+ */
+function scopeRange(source: string, scope: SearchScope = 'all'): [number, number] {
+  const frontMatterLength = getFrontMatterLength(source);
+  if (scope === 'frontMatter') {
+    return [0, frontMatterLength];
+  }
+  if (scope === 'body') {
+    return [frontMatterLength, source.length];
+  }
+  return [0, source.length];
+}
+
+/**
+ * Matches of `pattern` (a global RegExp) in a file, at most `limit`. Throws
+ * when matching takes longer than `timeout` ms.
+ */
+export function findMatches(
+  source: string,
+  pattern: RegExp,
+  scope: SearchScope = 'all',
+  limit: number = MAX_SEARCH_MATCHES,
+  timeout: number = SEARCH_TIME_LIMIT
+): SearchMatch[] {
+  const [start, end] = scopeRange(source, scope);
+  const frontMatterLength = getFrontMatterLength(source);
+  const region = source.slice(start, end);
+  const matches: SearchMatch[] = [];
+
+  // Offsets where each line starts, for line and column numbers
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const results = runWithTimeLimit(() => {
+    const found: RegExpExecArray[] = [];
+    let result: RegExpExecArray | null;
+
+    pattern.lastIndex = 0;
+    while (found.length < limit && (result = pattern.exec(region)) !== null) {
+      if (result[0] === '') {
+        // Step over empty matches (`^`, lookarounds) to avoid looping forever
+        pattern.lastIndex++;
+      }
+      found.push(result);
+    }
+
+    return found;
+  }, timeout);
+
+  for (const found of results) {
+    const offset = start + found.index;
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const lineEnd = source.indexOf('\n', lineStarts[low]);
+    const text = source.slice(lineStarts[low], lineEnd === -1 ? source.length : lineEnd).replace(/\r$/, '');
+
+    matches.push({
+      line: low + 1,
+      column: offset - lineStarts[low] + 1,
+      match: found[0],
+      text: text.length > MAX_LINE_PREVIEW ? `${text.slice(0, MAX_LINE_PREVIEW)}...` : text,
+      section: offset < frontMatterLength ? 'frontMatter' : 'body'
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Replace every match in the searched part of a file. In regex mode the
+ * replacement may use `$1`, `$<name>` and `$&`; otherwise it is literal.
+ * Throws when matching takes longer than `timeout` ms.
+ */
+export function replaceMatches(
+  source: string,
+  pattern: RegExp,
+  replacement: string,
+  options: { regex?: boolean; scope?: SearchScope; timeout?: number } = {}
+): { content: string; count: number } {
+  const [start, end] = scopeRange(source, options.scope);
+  const region = source.slice(start, end);
+
+  return runWithTimeLimit(() => {
+    const count = Array.from(region.matchAll(pattern)).length;
+
+    if (count === 0) {
+      return { content: source, count };
+    }
+
+    const replaced = options.regex ? region.replace(pattern, replacement) : region.replace(pattern, () => replacement);
+    return { content: source.slice(0, start) + replaced + source.slice(end), count };
+  }, options.timeout ?? SEARCH_TIME_LIMIT);
+}
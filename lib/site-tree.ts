@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { isBuildArtifact } from './build-cache';
+
+export type FileRole =
+  | 'layout'
+  | 'include'
+  | 'post'
+  | 'draft'
+  | 'page'
+  | 'collection'
+  | 'data'
+  | 'sass'
+  | 'asset'
+  | 'config'
+  | 'plugin'
+  | 'other';
+
+export interface FileTreeNode {
+  name: string;
+  // Relative to the site root, with forward slashes
+  path: string;
+  type: 'file' | 'directory';
+  // Folders: total of the files listed below them, missing when truncated
+  size?: number;
+  mtime: string;
+  // Folders get the role of what they hold, when that is known
+  role?: FileRole;
+  // Name of the collection for `collection` files and folders
+  collection?: string;
+  // sha256 of the content, files only
+  hash?: string;
+  children?: FileTreeNode[];
+  // Folder is deeper than the requested depth, its children were left out
+  truncated?: boolean;
+}
+
+export interface FileTreeOptions {
+  // Subfolder to start from
+  root?: string;
+  // Levels of folders to descend into below the root, unlimited when missing
+  depth?: number;
+  // Extra names or globs (`*.psd`, `assets/vendor/**`) to leave out
+  ignore?: string[];
+  // Include dotfiles other than build caches
+  hidden?: boolean;
+  hash?: boolean;
+  // Collections declared in _config.yml
+  collections?: string[];
+  collectionsDir?: string;
+}
+
+const MARKUP_EXTENSIONS = ['.md', '.markdown', '.html', '.htm'];
+
+const CONFIG_FILES = ['Gemfile', 'Gemfile.lock', '.gitignore'];
+
+const SPECIAL_FOLDERS: Record<string, FileRole> = {
+  _layouts: 'layout',
+  _includes: 'include',
+  _posts: 'post',
+  _drafts: 'draft',
+  _data: 'data',
+  _sass: 'sass',
+  _plugins: 'plugin'
+};
+
+// Content hashes by absolute path, reused while size and mtime are unchanged
+const hashCache = new Map<string, { size: number; mtimeMs: number; hash: string }>();
+const HASH_CACHE_LIMIT = 20000;
+
+/**
+ * Turn an ignore pattern into a regular expression. `*` matches within a
+ * path segment, `**` across segments.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/^\/+|\/+$/g, '')
+    .split('**')
+    .map(part => part.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Jekyll role of a file from its place in the site
+ */
+export function classifyFile(
+  relativePath: string,
+  collections: string[] = [],
+  collectionsDir: string = ''
+): { role: FileRole; collection?: string } {
+  const segments = relativePath.split('/');
+  const name = segments[segments.length - 1];
+  const ext = path.extname(name).toLowerCase();
+
+  if (segments.length === 1 && (/^_config.*\.(ya?ml|toml)$/.test(name) || CONFIG_FILES.includes(name))) {
+    return { role: 'config' };
+  }
+
+  // Posts and drafts may live inside the collections folder too
+  const prefix = collectionsDir ? collectionsDir.replace(/^\/+|\/+$/g, '').split('/') : [];
+  const inCollectionsDir = prefix.every((segment, i) => segments[i] === segment);
+  const top = inCollectionsDir ? segments[prefix.length] : undefined;
+
+  if (top && segments.length > prefix.length + 1) {
+    if (top === '_posts' || top === '_drafts') {
+      return { role: SPECIAL_FOLDERS[top] };
+    }
+
+    const collection = collections.find(name => `_${name}` === top);
+    if (collection) {
+      return { role: 'collection', collection };
+    }
+  }
+
+  if (segments.length > 1 && SPECIAL_FOLDERS[segments[0]]) {
+    return { role: SPECIAL_FOLDERS[segments[0]] };
+  }
+
+  if (segments.some(segment => segment.startsWith('_') || segment.startsWith('.'))) {
+    return { role: 'other' };
+  }
+
+  return { role: MARKUP_EXTENSIONS.includes(ext) ? 'page' : 'asset' };
+}
+
+async function hashFile(fullPath: string, stats: fs.Stats): Promise<string> {
+  const cached = hashCache.get(fullPath);
+  if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+    return cached.hash;
+  }
+
+  const hash = crypto.createHash('sha256').update(await fs.readFile(fullPath)).digest('hex');
+
+  if (hashCache.size >= HASH_CACHE_LIMIT) {
+    hashCache.clear();
+  }
+  hashCache.set(fullPath, { size: stats.size, mtimeMs: stats.mtimeMs, hash });
+
+  return hash;
+}
+
+/**
+ * Walk a site's sources into a nested tree. Build output, Jekyll caches and
+ * dependency folders at the site root are always left out.
+ */
+export async function buildFileTree(sitePath: string, options: FileTreeOptions = {}): Promise<FileTreeNode> {
+  const { root = '', depth, hidden = false, hash = true, collections = [], collectionsDir = '' } = options;
+  const ignore = (options.ignore || []).map(globToRegExp);
+
+  const isIgnored = (relativePath: string, name: string) =>
+    isBuildArtifact(relativePath) ||
+    (!hidden && name.startsWith('.')) ||
+    ignore.some(pattern => pattern.test(name) || pattern.test(relativePath));
+
+  const describe = async (relativePath: string, stats: fs.Stats, level: number): Promise<FileTreeNode> => {
+    const name = relativePath ? path.posix.basename(relativePath) : path.basename(sitePath);
+    const node: FileTreeNode = {
+      name,
+      path: relativePath,
+      type: stats.isDirectory() ? 'directory' : 'file',
+      size: stats.size,
+      mtime: stats.mtime.toISOString()
+    };
+
+    if (relativePath) {
+      // Classify a folder by a (virtual) file inside it
+      const { role, collection } = classifyFile(
+        stats.isDirectory() ? `${relativePath}/_` : relativePath,
+        collections,
+        collectionsDir
+      );
+      if (stats.isFile() || (role !== 'other' && role !== 'asset' && role !== 'page')) {
+        node.role = role;
+      }
+      if (collection) {
+        node.collection = collection;
+      }
+    }
+
+    if (stats.isFile()) {
+      if (hash) {
+        node.hash = await hashFile(path.join(sitePath, relativePath), stats);
+      }
+      return node;
+    }
+
+    if (depth !== undefined && level > depth) {
+      node.truncated = true;
+      delete node.size;
+      return node;
+    }
+
+    const entries = (await fs.readdir(path.join(sitePath, relativePath), { withFileTypes: true }))
+      .filter(entry => !isIgnored(path.posix.join(relativePath, entry.name), entry.name))
+      .sort((a, b) => {
+        // Folders first, then by name
+        if (a.isDirectory() !== b.isDirectory()) {
+          return a.isDirectory() ? -1 : 1;
+        }
+        return a.name.localeCompare(b.name);
+      });
+
+    node.children = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() && !entry.isFile()) {
+        continue;
+      }
+
+      const childPath = path.posix.join(relativePath, entry.name);
+      const childStats = await fs.stat(path.join(sitePath, childPath));
+      node.children.push(await describe(childPath, childStats, level + 1));
+    }
+
+    // Folder size is the total of what is listed below it
+    node.size = node.children.reduce((total, child) => total + (child.size || 0), 0);
+
+    return node;
+  };
+
+  const rootPath = root.split(path.sep).join('/').replace(/^\/+|\/+$/g, '');
+  return describe(rootPath, await fs.stat(path.join(sitePath, rootPath)), 0);
+}
@@ -0,0 +1,90 @@
+import chokidar from 'chokidar';
+import path from 'path';
+import { isBuildArtifact } from './build-cache';
+
+interface WatchedSite {
+  watcher: chokidar.FSWatcher;
+  changes: Set<string>;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Watches site sources and reports changes in debounced batches. Build
+ * output and caches are ignored so a build never triggers itself.
+ */
+class SiteWatcher {
+  private sites: Map<string, WatchedSite> = new Map();
+  private onChange: (siteId: string, files: string[]) => void;
+  private debounceMs: number;
+
+  constructor(onChange: (siteId: string, files: string[]) => void, debounceMs: number = 500) {
+    this.onChange = onChange;
+    this.debounceMs = debounceMs;
+  }
+
+  /**
+   * Start watching a site folder (no-op if it is watched already)
+   */
+  watch(siteId: string, sitePath: string): void {
+    if (this.sites.has(siteId)) {
+      return;
+    }
+
+    const watcher = chokidar.watch(sitePath, {
+      ignored: (filePath: string) => {
+        const relativePath = path.relative(sitePath, filePath);
+        return !!relativePath && isBuildArtifact(relativePath.split(path.sep).join('/'));
+      },
+      ignoreInitial: true,
+      persistent: true
+    });
+
+    const entry: WatchedSite = { watcher, changes: new Set() };
+
+    const record = (filePath: string) => {
+      entry.changes.add(path.relative(sitePath, filePath).split(path.sep).join('/'));
+
+      // Restart the timer on every event so a burst of saves builds once
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+      entry.timer = setTimeout(() => {
+        const files = Array.from(entry.changes);
+        entry.changes.clear();
+        entry.timer = undefined;
+        this.onChange(siteId, files);
+      }, this.debounceMs);
+    };
+
+    watcher.on('add', record);
+    watcher.on('change', record);
+    watcher.on('unlink', record);
+    watcher.on('addDir', record);
+    watcher.on('unlinkDir', record);
+    watcher.on('error', (error) => console.error(`Watcher error for site ${siteId}:`, error));
+
+    this.sites.set(siteId, entry);
+  }
+
+  /**
+   * Stop watching a site and drop changes that were still waiting
+   */
+  async unwatch(siteId: string): Promise<void> {
+    const entry = this.sites.get(siteId);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.sites.delete(siteId);
+    await entry.watcher.close();
+  }
+
+  isWatching(siteId: string): boolean {
+    return this.sites.has(siteId);
+  }
+}
+
+export default SiteWatcher;
@@ -0,0 +1,16 @@
+/**
+ * URL-safe slug for file names: lowercase ASCII letters, digits and dashes.
+ * Empty when the text has none of those.
+ */
+export function slugify(text: string, maxLength: number = 80): string {
+  return String(text || '')
+    .normalize('NFKD')
+    // Drop the accents split off by the normalization
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '');
+}
@@ -0,0 +1,177 @@
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+}
+
+// Past this many changed lines the middle of the files is shown as replaced
+// wholesale instead of searching for the shortest edit
+const MAX_DIFF_EDITS = 1000;
+
+/**
+ * Shortest line edit between `a` and `b` (Myers), or undefined when it
+ * takes more than MAX_DIFF_EDITS changes
+ */
+function shortestEdit(a: string[], b: string[]): DiffLine[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, MAX_DIFF_EDITS);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  // Furthest x per diagonal before each round, k in -d..d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : at(previousK);
+    const previousY = d === 0 ? 0 : previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      lines.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === previousX) {
+        lines.push({ type: 'insert', text: b[--y] });
+      } else {
+        lines.push({ type: 'delete', text: a[--x] });
+      }
+    }
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Line by line difference between two texts
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  // A final newline ends the last line rather than starting another
+  const toLines = (text: string) => text === '' ? [] : (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+  const a = toLines(before);
+  const b = toLines(after);
+
+  // Only the changed middle needs the edit search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+    end++;
+  }
+
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+  const middle = shortestEdit(middleA, middleB) || [
+    ...middleA.map(text => ({ type: 'delete' as const, text })),
+    ...middleB.map(text => ({ type: 'insert' as const, text }))
+  ];
+
+  return [
+    ...a.slice(0, start).map(text => ({ type: 'equal' as const, text })),
+    ...middle,
+    ...a.slice(a.length - end).map(text => ({ type: 'equal' as const, text }))
+  ];
+}
+
+/**
+ * Unified diff of a file (`--- a/path`, `+++ b/path`, `@@` hunks with
+ * `context` unchanged lines around each change). Empty when nothing changed.
+ */
+export function createUnifiedDiff(filePath: string, before: string, after: string, context: number = 3): string {
+  if (before === after) {
+    return '';
+  }
+
+  const lines = diffLines(before, after);
+  const output = [`--- a/${filePath}`, `+++ b/${filePath}`];
+
+  // Line numbers (0-based) in the old and new text where each entry sits
+  const positions: Array<{ old: number; new: number }> = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const line of lines) {
+    positions.push({ old: oldLine, new: newLine });
+    if (line.type !== 'insert') {
+      oldLine++;
+    }
+    if (line.type !== 'delete') {
+      newLine++;
+    }
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === 'equal') {
+      index++;
+      continue;
+    }
+
+    // Grow the hunk while changes are close enough to share context
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    while (hunkEnd < lines.length) {
+      let next = hunkEnd;
+      while (next < lines.length && lines[next].type !== 'equal') {
+        next++;
+      }
+      let equalRun = 0;
+      while (next + equalRun < lines.length && lines[next + equalRun].type === 'equal') {
+        equalRun++;
+      }
+      if (next + equalRun >= lines.length || equalRun > context * 2) {
+        hunkEnd = Math.min(lines.length, next + context);
+        break;
+      }
+      hunkEnd = next + equalRun;
+    }
+
+    const hunk = lines.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter(line => line.type !== 'insert').length;
+    const newCount = hunk.filter(line => line.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? positions[hunkStart].old : positions[hunkStart].old + 1;
+    const newStart = newCount === 0 ? positions[hunkStart].new : positions[hunkStart].new + 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+'}${line.text}`);
+    }
+
+    index = hunkEnd;
+  }
+
+  return `${output.join('\n')}\n`;
+}
@@ -0,0 +1,82 @@
+import { Document, YAMLMap, YAMLSeq, isMap, isNode, isScalar, isSeq } from 'yaml';
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isEqual = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Node for `value` that takes the place of `current`, keeping its comments
+ * and, for edited strings, its quoting style
+ */
+function replaceNode(document: Document, current: any, value: any): any {
+  const node: any = document.createNode(value);
+  if (isNode(current)) {
+    node.comment = (current as any).comment;
+    node.commentBefore = (current as any).commentBefore;
+  }
+  if (isScalar(current) && isScalar(node) && typeof value === 'string') {
+    node.type = current.type;
+  }
+  return node;
+}
+
+/**
+ * Bring a node in line with `value`. Maps and lists are updated in place,
+ * anything else that changed is replaced. Returns the node to keep.
+ */
+export function syncNode(document: Document, current: any, value: any): any {
+  if (isMap(current) && isPlainObject(value)) {
+    syncMap(document, current, value);
+    return current;
+  }
+  if (isSeq(current) && Array.isArray(value)) {
+    syncSeq(document, current, value);
+    return current;
+  }
+  if (isNode(current) && isEqual(current.toJSON(), value)) {
+    return current;
+  }
+  return replaceNode(document, current, value);
+}
+
+/**
+ * Bring a YAML map in line with `values`, touching only what changed so
+ * key order, quoting and comments of the rest survive
+ */
+export function syncMap(document: Document, map: YAMLMap, values: Record<string, any>): void {
+  for (const item of [...map.items]) {
+    const key = isNode(item.key) ? (item.key as any).value : item.key;
+    if (!Object.prototype.hasOwnProperty.call(values, String(key))) {
+      map.delete(item.key);
+    }
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    const current: any = map.get(key, true);
+    const node = map.has(key) ? syncNode(document, current, value) : document.createNode(value);
+    if (node !== current) {
+      map.set(key, node);
+    }
+  }
+}
+
+/**
+ * Same for a YAML list, item by item; items past the end of `values` go
+ */
+export function syncSeq(document: Document, seq: YAMLSeq, values: any[]): void {
+  seq.items.splice(values.length);
+
+  values.forEach((value, index) => {
+    if (index >= seq.items.length) {
+      seq.add(document.createNode(value));
+      return;
+    }
+
+    const current: any = seq.get(index, true);
+    const node = syncNode(document, current, value);
+    if (node !== current) {
+      seq.set(index, node);
+    }
+  });
+}
@@ -40,8 +40,9 @@ const corsOptions = {
   origin: process.env.NODE_ENV === 'production' 
     ? process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000']
     : true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Range', 'If-Match'],
+  exposedHeaders: ['Content-Range', 'Accept-Ranges', 'Content-Length', 'Content-Disposition', 'ETag'],
   credentials: true
 };
 
@@ -121,32 +122,8 @@ export function sanitizeInput(input: string): string {
     .trim();
 }
 
-/**
- * Validate site name
- */
-export function validateSiteName(name: string): { isValid: boolean; error?: string } {
-  if (!name || typeof name !== 'string') {
-    return { isValid: false, error: 'Site name is required' };
-  }
-  
-  // Check length
-  if (name.length < 3 || name.length > 50) {
-    return { isValid: false, error: 'Site name must be between 3 and 50 characters' };
-  }
-  
-  // Check format (alphanumeric, hyphens, underscores only)
-  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
-    return { isValid: false, error: 'Site name can only contain letters, numbers, hyphens, and underscores' };
-  }
-  
-  // Check for reserved names
-  const reservedNames = ['api', 'admin', 'www', 'mail', 'ftp', 'localhost', 'example'];
-  if (reservedNames.includes(name.toLowerCase())) {
-    return { isValid: false, error: 'Site name is reserved' };
-  }
-  
-  return { isValid: true };
-}
+// Site names are checked in lib so registry imports use the same rule
+export { validateSiteName } from '../lib/file-rules';
 
 /**
  * Security headers middleware
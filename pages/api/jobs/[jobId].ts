@@ -0,0 +1,43 @@
+// pages/api/jobs/[jobId].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../middleware/cors-rate-limit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.query;
+
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Job ID is required'
+    });
+  }
+
+  const job = jekyllManager.getBuildJob(jobId);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Job not found'
+    });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({
+    success: true,
+    job
+  });
+}
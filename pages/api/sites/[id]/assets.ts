@@ -0,0 +1,305 @@
+// pages/api/sites/[id]/assets.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import multer from 'multer';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import jekyllManager from '../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
+import { isPathSafe, isSitePathTarget } from '../../../../lib/file-rules';
+import {
+  ASSET_DIRECTORIES,
+  contentTypeFor,
+  getAllowedAssetTypes,
+  getMaxAssetSize,
+  sniffAssetType
+} from '../../../../lib/asset-types';
+
+// Multipart uploads are parsed here, downloads can be larger than Next's response limit
+export const config = {
+  api: {
+    bodyParser: false,
+    responseLimit: false
+  }
+};
+
+const MAX_FILES_PER_UPLOAD = 10;
+
+/**
+ * Parse the multipart body into `req.files` and `req.body`
+ */
+function parseUpload(req: NextApiRequest, res: NextApiResponse): Promise<void> {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: getMaxAssetSize(),
+      files: MAX_FILES_PER_UPLOAD
+    }
+  }).array('files', MAX_FILES_PER_UPLOAD);
+
+  return new Promise((resolve, reject) => {
+    upload(req as any, res as any, (result: any) => {
+      if (result instanceof Error) {
+        return reject(result);
+      }
+      return resolve();
+    });
+  });
+}
+
+/**
+ * Lowercase file name made of letters, digits, dots, dashes and underscores
+ */
+function sanitizeFileName(name: string): string {
+  return path.basename(name)
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[.-]+/, '')
+    .replace(/-+/g, '-');
+}
+
+/**
+ * Parse a `Range: bytes=...` header. Returns undefined when the whole file
+ * should be sent and null when the range can't be satisfied.
+ */
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null | undefined {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    // Missing, malformed or multiple ranges: serve the full file
+    return undefined;
+  }
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = parseInt(match[2], 10);
+    if (length === 0) {
+      return null;
+    }
+    start = Math.max(size - length, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  try {
+    if (req.method === 'POST') {
+      // Upload one or more assets
+      try {
+        await parseUpload(req, res);
+      } catch (error: any) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          return res.status(413).json({
+            success: false,
+            error: `File exceeds the ${getMaxAssetSize()} byte upload limit`
+          });
+        }
+
+        if (error instanceof multer.MulterError) {
+          return res.status(400).json({
+            success: false,
+            error: error.code === 'LIMIT_UNEXPECTED_FILE'
+              ? `Files must be sent in the "files" field (max ${MAX_FILES_PER_UPLOAD})`
+              : error.message
+          });
+        }
+
+        throw error;
+      }
+
+      const files: Express.Multer.File[] = (req as any).files || [];
+      const { directory, overwrite } = (req as any).body || {};
+
+      if (files.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'No files uploaded'
+        });
+      }
+
+      if (directory !== undefined && (typeof directory !== 'string' || !isSitePathTarget(directory) ||
+          path.normalize(directory).split(path.sep)[0].startsWith('_site'))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid directory'
+        });
+      }
+
+      // Check every file before writing any of them
+      const allowedTypes = getAllowedAssetTypes();
+      const uploads = [];
+
+      for (const file of files) {
+        const type = sniffAssetType(file.buffer);
+
+        if (!type || !allowedTypes.includes(type)) {
+          return res.status(415).json({
+            success: false,
+            error: 'File type not allowed',
+            file: file.originalname,
+            allowedTypes: allowedTypes.map(allowed => allowed.mimeType)
+          });
+        }
+
+        const fileName = sanitizeFileName(file.originalname);
+        if (!fileName || !type.extensions.includes(path.extname(fileName))) {
+          return res.status(415).json({
+            success: false,
+            error: `File extension does not match its content (${type.mimeType})`,
+            file: file.originalname,
+            expectedExtensions: type.extensions
+          });
+        }
+
+        const filePath = path.posix.join(directory || ASSET_DIRECTORIES[type.category], fileName);
+        if (!isSitePathTarget(filePath)) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid file path',
+            file: file.originalname
+          });
+        }
+
+        uploads.push({ file, type, filePath });
+      }
+
+      const assets = [];
+      for (const { file, type, filePath } of uploads) {
+        const savedPath = await jekyllManager.saveAsset(id, filePath, file.buffer, {
+          overwrite: overwrite === true || overwrite === 'true'
+        });
+
+        assets.push({
+          path: savedPath,
+          url: `/${savedPath}`,
+          size: file.size,
+          mimeType: type.mimeType,
+          downloadUrl: `/api/sites/${id}/assets?path=${encodeURIComponent(savedPath)}`
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        assets
+      });
+
+    } else if (req.method === 'GET' || req.method === 'HEAD') {
+      // Download a site file, optionally a byte range of it
+      const { path: filePath } = req.query;
+
+      if (!filePath || typeof filePath !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'File path is required'
+        });
+      }
+
+      if (!isPathSafe(filePath) || !isSitePathTarget(filePath)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid file path'
+        });
+      }
+
+      let file;
+      try {
+        file = await jekyllManager.openFile(id, filePath);
+      } catch (error: any) {
+        if (error.code === 'ENOENT' || error.message === 'Not a file') {
+          return res.status(404).json({
+            success: false,
+            error: 'File not found'
+          });
+        }
+        throw error;
+      }
+
+      const fileName = path.basename(filePath).replace(/"/g, '');
+      res.setHeader('Content-Type', contentTypeFor(filePath, file.header));
+      res.setHeader('Content-Disposition', `${sniffAssetType(file.header) ? 'inline' : 'attachment'}; filename="${fileName}"`);
+      // Never run scripts from served files (SVG, HTML)
+      res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Last-Modified', file.modified.toUTCString());
+      res.setHeader('Cache-Control', 'no-cache');
+
+      const range = parseRange(req.headers.range, file.size);
+
+      if (range === null) {
+        res.setHeader('Content-Range', `bytes */${file.size}`);
+        return res.status(416).end();
+      }
+
+      if (range) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+        res.setHeader('Content-Length', range.end - range.start + 1);
+      } else {
+        res.status(200);
+        res.setHeader('Content-Length', file.size);
+      }
+
+      if (req.method === 'HEAD' || file.size === 0) {
+        return res.end();
+      }
+
+      await pipeline(file.createReadStream(range), res);
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    console.error('Assets API error:', error);
+
+    // Headers are gone once a download has started streaming
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,151 @@
+// pages/api/sites/[id]/build/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+  
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      const jobId = req.body?.jobId || req.query.jobId;
+
+      const cancelled = jekyllManager.cancelBuild(id, typeof jobId === 'string' ? jobId : undefined);
+
+      if (cancelled.length === 0) {
+        return res.status(409).json({
+          success: false,
+          error: 'No build is queued or running for this site'
+        });
+      }
+
+      console.log(`Cancelled ${cancelled.length} build job(s) for site: ${site.name}`);
+
+      return res.json({
+        success: true,
+        message: 'Build cancelled',
+        jobs: cancelled.map(job => ({ id: job.id, status: job.status }))
+      });
+    } catch (error: any) {
+      console.error(`Error cancelling build for site ${site.name}:`, error);
+
+      return res.status(500).json({
+        success: false,
+        error: error.message,
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
+    }
+  }
+
+  try {
+    const wait = req.body?.wait === true || req.query.wait === 'true';
+    const triggeredBy = typeof req.body?.triggeredBy === 'string' ? req.body.triggeredBy : 'api';
+    const force = req.body?.force === true || req.query.force === 'true';
+    const incremental = typeof req.body?.incremental === 'boolean' ? req.body.incremental : undefined;
+    const profile = req.body?.profile || req.query.profile;
+
+    if (profile !== undefined) {
+      const profiles = jekyllManager.getBuildProfiles(id);
+      if (typeof profile !== 'string' || !profiles[profile]) {
+        return res.status(400).json({
+          success: false,
+          error: 'Unknown build profile',
+          profiles: Object.keys(profiles)
+        });
+      }
+    }
+
+    // Requests for a site that already has a build waiting share that job
+    const job = jekyllManager.enqueueBuild(id, { triggeredBy, force, incremental, profile });
+    console.log(`Build job ${job.id} queued for site: ${site.name}`);
+
+    if (!wait) {
+      return res.status(202).json({
+        success: true,
+        job,
+        statusUrl: `/api/jobs/${job.id}`,
+        site: {
+          id: site.id,
+          name: site.name,
+          status: site.status,
+          lastBuilt: site.lastBuilt
+        }
+      });
+    }
+
+    const finishedJob = await jekyllManager.waitForBuild(job.id);
+    const buildResult = finishedJob.result;
+    if (!buildResult) {
+      throw new Error(finishedJob.error || 'Build failed');
+    }
+
+    const responseData = {
+      success: buildResult.success,
+      jobId: finishedJob.id,
+      buildResult: {
+        success: buildResult.success,
+        output: buildResult.output,
+        error: buildResult.error,
+        buildTime: buildResult.buildTime,
+        profile: buildResult.profile,
+        destination: buildResult.destination,
+        diagnostics: buildResult.diagnostics || [],
+        commit: buildResult.commit,
+        cache: buildResult.cache,
+        timestamp: new Date().toISOString()
+      },
+      site: {
+        id: site.id,
+        name: site.name,
+        status: site.status,
+        lastBuilt: site.lastBuilt
+      }
+    };
+
+    if (buildResult.success) {
+      console.log(`Site ${site.name} built successfully in ${buildResult.buildTime}ms`);
+      res.json(responseData);
+    } else {
+      console.error(`Site ${site.name} build failed:`, buildResult.error);
+      res.status(400).json(responseData);
+    }
+  } catch (error: any) {
+    console.error(`Build error for site ${site.name}:`, error);
+    
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Build failed',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
\ No newline at end of file
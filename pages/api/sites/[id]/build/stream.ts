@@ -0,0 +1,100 @@
+// pages/api/sites/[id]/build/stream.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../lib/jekyll-manager-instance';
+import { BuildOutputLine } from '../../../../../lib/jekyll-manager';
+import { BuildJob } from '../../../../../lib/build-queue';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+
+// Server-Sent Events stream of a site's build output and job updates.
+// The connection stays open across builds until the client disconnects.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Keep compression and proxies from buffering the stream
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Build output is streamed separately, keep job events small
+  const jobSummary = ({ result, ...job }: BuildJob) => ({
+    ...job,
+    buildTime: result?.buildTime
+  });
+
+  // Catch up on a build that is already running
+  jekyllManager.getBuildJobs(id)
+    .filter(job => job.status === 'running')
+    .forEach(job => {
+      send('job', jobSummary(job));
+      jekyllManager.getBuildLog(job.id).forEach(entry => send('output', entry));
+    });
+
+  const onOutput = (entry: BuildOutputLine) => {
+    if (entry.siteId === id) {
+      send('output', entry);
+    }
+  };
+
+  const onJobUpdated = (job: BuildJob) => {
+    if (job.siteId === id) {
+      send('job', jobSummary(job));
+    }
+  };
+
+  jekyllManager.on('buildOutput', onOutput);
+  jekyllManager.on('buildJobUpdated', onJobUpdated);
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, 15000);
+
+  await new Promise<void>(resolve => {
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      jekyllManager.off('buildOutput', onOutput);
+      jekyllManager.off('buildJobUpdated', onJobUpdated);
+      resolve();
+    });
+  });
+
+  res.end();
+}
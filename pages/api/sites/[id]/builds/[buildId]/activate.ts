@@ -0,0 +1,97 @@
+// pages/api/sites/[id]/builds/[buildId]/activate.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../../middleware/cors-rate-limit';
+
+// Roll the static preview back (or forward) to the output of a kept build
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, buildId } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  if (!buildId || typeof buildId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Build ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  try {
+    const build = await jekyllManager.getBuild(id, buildId);
+    if (!build) {
+      return res.status(404).json({
+        success: false,
+        error: 'Build not found'
+      });
+    }
+
+    if (!build.snapshot) {
+      return res.status(409).json({
+        success: false,
+        error: 'Build output is no longer available'
+      });
+    }
+
+    // A running build would overwrite _site/ again
+    if (site.status === 'building') {
+      return res.status(409).json({
+        success: false,
+        error: 'Site is currently building'
+      });
+    }
+
+    await jekyllManager.activateBuild(id, buildId);
+
+    console.log(`Activated build ${buildId} for site: ${site.name}`);
+
+    res.json({
+      success: true,
+      build: {
+        ...build,
+        active: true
+      },
+      site: {
+        id: site.id,
+        name: site.name,
+        status: site.status,
+        activeBuildId: site.activeBuildId
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error activating build ${buildId} for site ${site.name}:`, error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,71 @@
+// pages/api/sites/[id]/builds/[buildId]/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../../middleware/cors-rate-limit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, buildId } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  if (!buildId || typeof buildId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Build ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  try {
+    const build = await jekyllManager.getBuild(id, buildId);
+    if (!build) {
+      return res.status(404).json({
+        success: false,
+        error: 'Build not found'
+      });
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({
+      success: true,
+      build: {
+        ...build,
+        active: site.activeBuildId === build.id
+      },
+      activateUrl: build.snapshot ? `/api/sites/${id}/builds/${build.id}/activate` : undefined
+    });
+  } catch (error: any) {
+    console.error(`Error fetching build ${buildId} for site ${site.name}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+}
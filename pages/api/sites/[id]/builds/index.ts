@@ -0,0 +1,70 @@
+// pages/api/sites/[id]/builds/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, status, limit = 20 } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  try {
+    let builds = await jekyllManager.getBuildHistory(id);
+
+    // Filter by build status if provided
+    if (status && typeof status === 'string') {
+      builds = builds.filter(build => build.status === status);
+    }
+
+    const limitNum = Math.min(parseInt(limit as string) || 20, 100);
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({
+      success: true,
+      // Build output is not kept, fetch /api/jobs/[jobId] of a recent build for it
+      builds: builds.slice(0, limitNum),
+      total: builds.length,
+      queue: jekyllManager.getBuildQueueStats(),
+      site: {
+        id: site.id,
+        name: site.name,
+        status: site.status,
+        lastBuilt: site.lastBuilt
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error fetching builds for site ${site.name}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+}
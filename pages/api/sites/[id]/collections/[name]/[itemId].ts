@@ -0,0 +1,129 @@
+// pages/api/sites/[id]/collections/[name]/[itemId].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getCollectionManager } from '../../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../../middleware/cors-rate-limit';
+import { validateCollectionItemInput } from '../../../../../../lib/collection-manager';
+
+// HTTP status for errors thrown by the item operations
+function itemErrorStatus(error: any): number {
+  switch (error.message) {
+    case 'Collection not found':
+    case 'Item not found':
+      return 404;
+    case 'Title or slug must contain letters or digits':
+      return 400;
+    case 'File type not allowed':
+      return 403;
+    case 'Destination already exists':
+      return 409;
+    case 'File has changed':
+      return 412;
+    case 'Item has malformed front matter':
+      return 422;
+    default:
+      return 500;
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, name, itemId } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  if (!name || typeof name !== 'string' || !itemId || typeof itemId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Collection name and item ID are required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const collectionManager = getCollectionManager();
+
+  try {
+    if (req.method === 'GET') {
+      const item = await collectionManager.getItem(id, name, itemId);
+      if (!item) {
+        return res.status(404).json({
+          success: false,
+          error: 'Item not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        item
+      });
+
+    } else if (req.method === 'PUT') {
+      const errors = validateCollectionItemInput(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid item',
+          errors
+        });
+      }
+
+      const { title, slug, body, frontMatter } = req.body;
+      const item = await collectionManager.updateItem(id, name, itemId, { title, slug, body, frontMatter }, {
+        ifMatch: req.headers['if-match']
+      });
+
+      res.json({
+        success: true,
+        message: 'Item updated successfully',
+        item
+      });
+
+    } else if (req.method === 'DELETE') {
+      await collectionManager.deleteItem(id, name, itemId, {
+        ifMatch: req.headers['if-match']
+      });
+
+      res.json({
+        success: true,
+        message: 'Item deleted successfully',
+        itemId
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    const status = itemErrorStatus(error);
+    if (status === 500) {
+      console.error(`Collection item API error for ${name}/${itemId}:`, error);
+    }
+
+    res.status(status).json({
+      success: false,
+      error: error.message === 'File has changed' ? 'Item was changed by someone else' : error.message,
+      details: process.env.NODE_ENV === 'development' && status === 500 ? error.stack : undefined
+    });
+  }
+}
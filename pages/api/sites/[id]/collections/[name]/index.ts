@@ -0,0 +1,154 @@
+// pages/api/sites/[id]/collections/[name]/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getCollectionManager } from '../../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../../middleware/cors-rate-limit';
+import { validateCollectionItemInput } from '../../../../../../lib/collection-manager';
+
+// HTTP status for errors thrown by the collection operations
+function collectionErrorStatus(error: any): number {
+  switch (error.message) {
+    case 'Collection not found':
+      return 404;
+    case 'Title or slug must contain letters or digits':
+    case 'Invalid collection name':
+      return 400;
+    case 'Collection is not empty':
+    case 'Item already exists':
+    case 'File has changed':
+      return 409;
+    case 'Site config has errors':
+      return 422;
+    default:
+      return 500;
+  }
+}
+
+// One collection: its settings and items. POST adds an item.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, name } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Collection name is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const collectionManager = getCollectionManager();
+
+  try {
+    if (req.method === 'GET') {
+      const collection = await collectionManager.getCollection(id, name);
+      if (!collection) {
+        return res.status(404).json({
+          success: false,
+          error: 'Collection not found'
+        });
+      }
+
+      const items = await collectionManager.listItems(id, name);
+
+      res.json({
+        success: true,
+        collection,
+        items
+      });
+
+    } else if (req.method === 'POST') {
+      const errors = validateCollectionItemInput(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid item',
+          errors
+        });
+      }
+
+      const { title, slug, body, frontMatter } = req.body;
+      const item = await collectionManager.createItem(id, name, { title, slug, body, frontMatter });
+
+      res.status(201).json({
+        success: true,
+        message: 'Item created successfully',
+        item
+      });
+
+    } else if (req.method === 'PUT') {
+      const { settings } = req.body || {};
+
+      if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+        return res.status(400).json({
+          success: false,
+          error: 'settings must be an object'
+        });
+      }
+
+      if (!await collectionManager.getCollection(id, name)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Collection not found'
+        });
+      }
+
+      const collection = await collectionManager.saveCollection(id, name, settings);
+
+      res.json({
+        success: true,
+        message: 'Collection updated successfully',
+        collection
+      });
+
+    } else if (req.method === 'DELETE') {
+      await collectionManager.deleteCollection(id, name, {
+        recursive: req.query.recursive === 'true' || (req.body || {}).recursive === true
+      });
+
+      res.json({
+        success: true,
+        message: 'Collection deleted successfully',
+        name
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    const status = collectionErrorStatus(error);
+    if (status === 500) {
+      console.error(`Collection API error for ${name}:`, error);
+    }
+
+    res.status(status).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' && status === 500 ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,105 @@
+// pages/api/sites/[id]/collections/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getCollectionManager } from '../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+import { isValidCollectionName } from '../../../../../lib/collections';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const collectionManager = getCollectionManager();
+
+  try {
+    if (req.method === 'GET') {
+      const collections = await collectionManager.listCollections(id);
+
+      res.json({
+        success: true,
+        collections
+      });
+
+    } else if (req.method === 'POST') {
+      const { name, settings = { output: true } } = req.body || {};
+
+      if (typeof name !== 'string' || !isValidCollectionName(name)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Collection name must start with a letter and contain only lowercase letters, digits, dashes or underscores (posts, drafts and data are reserved)'
+        });
+      }
+
+      if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+        return res.status(400).json({
+          success: false,
+          error: 'settings must be an object'
+        });
+      }
+
+      if (await collectionManager.getCollection(id, name)) {
+        return res.status(409).json({
+          success: false,
+          error: 'Collection already exists'
+        });
+      }
+
+      const collection = await collectionManager.saveCollection(id, name, settings);
+
+      res.status(201).json({
+        success: true,
+        message: 'Collection created successfully',
+        collection
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    if (error.message === 'File has changed') {
+      return res.status(409).json({
+        success: false,
+        error: '_config.yml was changed at the same time, try again'
+      });
+    }
+
+    if (error.message === 'Site config has errors') {
+      return res.status(422).json({
+        success: false,
+        error: '_config.yml has errors, fix it before changing collections'
+      });
+    }
+
+    console.error('Collections API error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
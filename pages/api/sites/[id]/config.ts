@@ -0,0 +1,145 @@
+// pages/api/sites/[id]/config.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
+import { formatETag, hashContent } from '../../../../lib/file-etag';
+import { parseSiteConfig, validateSiteConfig } from '../../../../lib/site-config';
+
+// _config.yml as structured settings, edited with merge patches
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const source = await jekyllManager.readFile(id, '_config.yml');
+      const { document, errors } = parseSiteConfig(source);
+
+      res.setHeader('ETag', formatETag(hashContent(source)));
+
+      if (errors.length > 0) {
+        return res.status(422).json({
+          success: false,
+          error: '_config.yml has errors',
+          errors,
+          content: source
+        });
+      }
+
+      const config = document.toJS() || {};
+
+      res.json({
+        success: true,
+        config,
+        // Known settings with an unexpected shape, Jekyll may reject them
+        warnings: validateSiteConfig(config),
+        etag: formatETag(hashContent(source))
+      });
+
+    } else if (req.method === 'PATCH') {
+      const patch = req.body;
+
+      if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Config patch must be an object'
+        });
+      }
+
+      const dryRun = req.query.dryRun === 'true';
+      const result = await jekyllManager.updateSiteConfig(id, patch, {
+        ifMatch: req.headers['if-match'],
+        dryRun
+      });
+
+      if (result.errors.length > 0) {
+        return res.status(422).json({
+          success: false,
+          error: 'Invalid config',
+          errors: result.errors
+        });
+      }
+
+      const rebuildRequired = result.changes.some(change => change.requiresRebuild);
+      // A running `jekyll serve` only reads _config.yml when it starts
+      const restartRequired = site.status === 'serving' && result.changes.length > 0;
+
+      let buildJob;
+      if (!dryRun && rebuildRequired && req.query.rebuild === 'true') {
+        buildJob = jekyllManager.enqueueBuild(id, { triggeredBy: 'config-update' });
+      }
+
+      if (result.hash) {
+        res.setHeader('ETag', formatETag(result.hash));
+      }
+
+      res.json({
+        success: true,
+        message: dryRun ? 'Config checked successfully' : 'Config updated successfully',
+        dryRun,
+        config: result.config,
+        changes: result.changes,
+        rebuildRequired,
+        restartRequired,
+        buildJobId: buildJob?.id,
+        etag: result.hash ? formatETag(result.hash) : null
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return res.status(404).json({
+        success: false,
+        error: '_config.yml not found'
+      });
+    }
+
+    if (error.message === 'File has changed') {
+      // Send the current settings so the editor can merge
+      const current = await jekyllManager.readFile(id, '_config.yml').catch(() => null);
+      const parsed = current === null ? null : parseSiteConfig(current);
+
+      return res.status(412).json({
+        success: false,
+        error: 'Config was changed by someone else',
+        config: parsed && parsed.errors.length === 0 ? parsed.document.toJS() || {} : null,
+        etag: current === null ? null : formatETag(hashContent(current))
+      });
+    }
+
+    console.error(`Config API error for site ${id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
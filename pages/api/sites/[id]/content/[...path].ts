@@ -0,0 +1,165 @@
+// pages/api/sites/[id]/content/[...path].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import jekyllManager from '../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+import { isFileExtensionAllowed, isSitePathTarget } from '../../../../../lib/file-rules';
+import { formatETag, hashContent } from '../../../../../lib/file-etag';
+import {
+  CONTENT_EXTENSIONS,
+  isValidFrontMatterInput,
+  parseContent,
+  serializeContent
+} from '../../../../../lib/front-matter';
+
+// Pages and posts as front matter plus body instead of raw text
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, path: pathSegments } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const filePath = Array.isArray(pathSegments) ? pathSegments.join('/') : pathSegments || '';
+
+  if (!isSitePathTarget(filePath)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid file path'
+    });
+  }
+
+  if (!isFileExtensionAllowed(filePath) || !CONTENT_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+    return res.status(403).json({
+      success: false,
+      error: `Only ${CONTENT_EXTENSIONS.join(', ')} files have front matter`
+    });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const source = await jekyllManager.readFile(id, filePath);
+      const { frontMatter, body, errors } = parseContent(source);
+
+      res.setHeader('ETag', formatETag(hashContent(source)));
+
+      if (errors.length > 0) {
+        return res.status(422).json({
+          success: false,
+          error: 'Malformed front matter',
+          errors,
+          path: filePath,
+          content: source
+        });
+      }
+
+      res.json({
+        success: true,
+        path: filePath,
+        frontMatter,
+        body
+      });
+
+    } else if (req.method === 'PUT') {
+      const { frontMatter, body } = req.body || {};
+
+      if (typeof body !== 'string' || !isValidFrontMatterInput(frontMatter)) {
+        return res.status(400).json({
+          success: false,
+          error: 'body must be a string and frontMatter an object, YAML text or null'
+        });
+      }
+
+      // Merge into what is there to keep comments and key order
+      let original = '';
+      let originalHash: string | null = null;
+      try {
+        original = await jekyllManager.readFile(id, filePath);
+        originalHash = hashContent(original);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      const { source, errors } = serializeContent(frontMatter, body, original);
+
+      if (source === undefined) {
+        return res.status(422).json({
+          success: false,
+          error: 'Malformed front matter',
+          errors
+        });
+      }
+
+      // Without If-Match, still fail if the file changed since it was read above
+      const ifMatch = req.headers['if-match'] ?? (originalHash ? formatETag(originalHash) : undefined);
+      const hash = await jekyllManager.updateFile(id, filePath, source, { ifMatch });
+
+      res.setHeader('ETag', formatETag(hash));
+      res.json({
+        success: true,
+        message: 'Content updated successfully',
+        path: filePath,
+        frontMatter: parseContent(source).frontMatter,
+        body,
+        etag: formatETag(hash)
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+    }
+
+    if (error.message === 'File has changed') {
+      // Send what the file holds now so the editor can merge
+      const current = await jekyllManager.readFile(id, filePath).catch(() => null);
+      const parsed = current === null ? null : parseContent(current);
+
+      return res.status(412).json({
+        success: false,
+        error: 'File was changed by someone else',
+        path: filePath,
+        frontMatter: parsed ? parsed.frontMatter : null,
+        body: parsed ? parsed.body : null,
+        etag: current === null ? null : formatETag(hashContent(current))
+      });
+    }
+
+    console.error(`Content API error for ${filePath}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,151 @@
+// pages/api/sites/[id]/data/[...name].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getDataManager } from '../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+import { formatETag } from '../../../../../lib/file-etag';
+
+// HTTP status for errors thrown by the data file operations
+function dataErrorStatus(error: any): number {
+  switch (error.message) {
+    case 'Data file not found':
+      return 404;
+    case 'Invalid data file name':
+    case 'Unsupported data format':
+      return 400;
+    case 'File has changed':
+      return 412;
+    case 'Invalid data':
+    case 'Data does not match its schema':
+    case 'Data schema is invalid':
+      return 422;
+    default:
+      return 500;
+  }
+}
+
+// One data file (`_data/team.yml` is `team`) as JSON, whatever its format
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, name: nameSegments } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const name = Array.isArray(nameSegments) ? nameSegments.join('/') : nameSegments || '';
+  const dataManager = getDataManager();
+
+  try {
+    if (req.method === 'GET') {
+      const file = await dataManager.getDataFile(id, name);
+      if (!file) {
+        return res.status(404).json({
+          success: false,
+          error: 'Data file not found'
+        });
+      }
+
+      res.setHeader('ETag', formatETag(file.hash));
+
+      if (file.errors) {
+        return res.status(422).json({
+          success: false,
+          error: `Malformed ${file.format.toUpperCase()}`,
+          errors: file.errors,
+          file,
+          content: await jekyllManager.readFile(id, file.path)
+        });
+      }
+
+      res.json({
+        success: true,
+        file,
+        etag: formatETag(file.hash)
+      });
+
+    } else if (req.method === 'PUT') {
+      const { data, format } = req.body || {};
+
+      if (data === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'data is required'
+        });
+      }
+
+      const file = await dataManager.saveDataFile(id, name, data, {
+        format,
+        ifMatch: req.headers['if-match']
+      });
+
+      res.setHeader('ETag', formatETag(file.hash));
+      res.json({
+        success: true,
+        message: 'Data file saved successfully',
+        file,
+        etag: formatETag(file.hash)
+      });
+
+    } else if (req.method === 'DELETE') {
+      await dataManager.deleteDataFile(id, name, {
+        ifMatch: req.headers['if-match']
+      });
+
+      res.json({
+        success: true,
+        message: 'Data file deleted successfully',
+        name
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    const status = dataErrorStatus(error);
+
+    if (status === 412) {
+      // Send what the file holds now so the editor can merge
+      const current = await dataManager.getDataFile(id, name).catch(() => undefined);
+
+      return res.status(412).json({
+        success: false,
+        error: 'Data file was changed by someone else',
+        file: current || null,
+        etag: current ? formatETag(current.hash) : null
+      });
+    }
+
+    if (status === 500) {
+      console.error(`Data API error for ${name}:`, error);
+    }
+
+    res.status(status).json({
+      success: false,
+      error: error.message,
+      errors: error.errors,
+      details: process.env.NODE_ENV === 'development' && status === 500 ? error.stack : undefined
+    });
+  }
+}
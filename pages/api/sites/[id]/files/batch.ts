@@ -0,0 +1,121 @@
+// pages/api/sites/[id]/files/batch.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware, sanitizeInput } from '../../../../../middleware/cors-rate-limit';
+import { validateFileOperations } from '../../../../../lib/file-batch';
+
+// Clean the paths of each operation the same way the files route does
+function sanitizeOperations(operations: any): any {
+  if (!Array.isArray(operations)) {
+    return operations;
+  }
+
+  return operations.map(operation => {
+    if (!operation || typeof operation !== 'object') {
+      return operation;
+    }
+
+    const sanitized = { ...operation };
+    for (const field of ['path', 'from', 'to']) {
+      if (typeof sanitized[field] === 'string') {
+        sanitized[field] = sanitizeInput(sanitized[field]);
+      }
+    }
+    return sanitized;
+  });
+}
+
+// HTTP status for an operation that failed while the batch was applied
+function batchErrorStatus(error: any): number {
+  if (error.code === 'ENOENT') return 404;
+
+  switch (error.message) {
+    case 'Cannot move a path onto or into itself':
+      return 400;
+    case 'File type not allowed':
+      return 403;
+    case 'Directory is not empty':
+    case 'Destination already exists':
+      return 409;
+    case 'File has changed':
+      return 412;
+    default:
+      return 500;
+  }
+}
+
+// Several file writes, deletes and moves applied all-or-nothing
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { rebuild } = req.body || {};
+  const operations = sanitizeOperations((req.body || {}).operations);
+
+  const errors = validateFileOperations(operations);
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operations',
+      errors
+    });
+  }
+
+  try {
+    console.log(`Applying ${operations.length} file operation(s) for site: ${site.name}`);
+
+    const changes = await jekyllManager.applyFileBatch(id, operations);
+
+    // One build for the whole batch
+    const buildJob = rebuild === true
+      ? jekyllManager.enqueueBuild(id, { triggeredBy: 'file-batch' })
+      : undefined;
+
+    res.json({
+      success: true,
+      message: 'File operations applied successfully',
+      changes,
+      buildJobId: buildJob?.id
+    });
+
+  } catch (error: any) {
+    console.error(`Error applying file operations:`, error);
+
+    // Nothing was changed, the failed operation was rolled back with the rest
+    res.status(batchErrorStatus(error)).json({
+      success: false,
+      error: error.code === 'ENOENT' ? 'File or directory not found' : error.message,
+      operation: error.operation,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
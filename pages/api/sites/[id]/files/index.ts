@@ -0,0 +1,362 @@
+// pages/api/sites/[id]/files/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../lib/jekyll-manager-instance';
+import { isCriticalFile, isFileExtensionAllowed, isPathSafe, isSitePathTarget } from '../../../../../lib/file-rules';
+import { applySecurityMiddleware, sanitizeInput } from '../../../../../middleware/cors-rate-limit';
+import { formatETag, hashContent } from '../../../../../lib/file-etag';
+
+// HTTP status for errors thrown by the file operations
+function fileErrorStatus(error: any): number {
+  if (error.code === 'ENOENT') return 404;
+
+  switch (error.message) {
+    case 'Invalid file path':
+    case 'Cannot move a path onto or into itself':
+      return 400;
+    case 'File type not allowed':
+    case 'Cannot delete critical files':
+    case 'Cannot move critical files':
+      return 403;
+    case 'Directory is not empty':
+    case 'Destination already exists':
+    case 'Path already exists':
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * 412 for an edit made against an outdated version, with what the file
+ * holds now so the client can merge
+ */
+async function sendConflict(res: NextApiResponse, siteId: string, filePath: string) {
+  let content: string | null = null;
+  try {
+    content = await jekyllManager.readFile(siteId, filePath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT' && error.code !== 'EISDIR') {
+      throw error;
+    }
+  }
+
+  const etag = content === null ? null : formatETag(hashContent(content));
+  if (etag) {
+    res.setHeader('ETag', etag);
+  }
+
+  return res.status(412).json({
+    success: false,
+    error: 'File was changed by someone else',
+    filePath,
+    content,
+    etag
+  });
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+  
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, path: queryPath = '' } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const filePath = Array.isArray(queryPath) ? queryPath.join('/') : queryPath;
+
+  // Validate file path
+  if (!isPathSafe(filePath)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid file path'
+    });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      if (typeof filePath === 'string' && filePath.includes('.')) {
+        // Get specific file content
+        if (!isFileExtensionAllowed(filePath)) {
+          return res.status(403).json({
+            success: false,
+            error: 'File type not allowed'
+          });
+        }
+
+        const content = await jekyllManager.readFile(id, filePath);
+        const stats = await jekyllManager.statFile(id, filePath);
+        const etag = formatETag(hashContent(content));
+
+        // Send it back in If-Match when saving
+        res.setHeader('ETag', etag);
+        res.json({
+          success: true,
+          content,
+          path: filePath,
+          size: Buffer.byteLength(content, 'utf8'),
+          lastModified: stats.mtime.toISOString(),
+          etag
+        });
+      } else {
+        // List directory contents
+        const files = await jekyllManager.listFiles(id, filePath);
+        
+        // Filter out system files
+        const filteredFiles = files.filter(file => 
+          !file.name.startsWith('.') && 
+          !['node_modules', '_site', '.bundle'].includes(file.name)
+        );
+        
+        res.json({
+          success: true,
+          files: filteredFiles,
+          path: filePath,
+          count: filteredFiles.length
+        });
+      }
+    } catch (error: any) {
+      console.error(`Error reading file/directory ${filePath}:`, error);
+      
+      if (error.code === 'ENOENT') {
+        res.status(404).json({
+          success: false,
+          error: 'File or directory not found'
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: error.message,
+          details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+        });
+      }
+    }
+  } else if (req.method === 'PUT') {
+    try {
+      const { content, filePath: bodyFilePath } = req.body;
+      
+      if (!content || !bodyFilePath) {
+        return res.status(400).json({
+          success: false,
+          error: 'Content and filePath are required'
+        });
+      }
+
+      const sanitizedFilePath = sanitizeInput(bodyFilePath);
+      const sanitizedContent = content; // Don't sanitize content as it may contain valid HTML/markdown
+
+      // Validate file path and extension
+      if (!isPathSafe(sanitizedFilePath)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid file path'
+        });
+      }
+
+      if (!isFileExtensionAllowed(sanitizedFilePath)) {
+        return res.status(403).json({
+          success: false,
+          error: 'File type not allowed'
+        });
+      }
+
+      console.log(`Updating file: ${sanitizedFilePath} for site: ${site.name}`);
+      
+      const hash = await jekyllManager.updateFile(id, sanitizedFilePath, sanitizedContent, {
+        ifMatch: req.headers['if-match']
+      });
+      
+      console.log(`File updated successfully: ${sanitizedFilePath}`);
+      const stats = await jekyllManager.statFile(id, sanitizedFilePath);
+      
+      res.setHeader('ETag', formatETag(hash));
+      res.json({
+        success: true,
+        message: 'File updated successfully',
+        filePath: sanitizedFilePath,
+        size: Buffer.byteLength(sanitizedContent, 'utf8'),
+        lastModified: stats.mtime.toISOString(),
+        etag: formatETag(hash)
+      });
+    } catch (error: any) {
+      if (error.message === 'File has changed') {
+        return sendConflict(res, id, sanitizeInput(req.body.filePath));
+      }
+
+      console.error(`Error updating file:`, error);
+      
+      res.status(500).json({
+        success: false,
+        error: error.message,
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
+    }
+  } else if (req.method === 'POST') {
+    try {
+      const { type, path: bodyPath } = req.body || {};
+
+      if (type !== 'directory') {
+        return res.status(400).json({
+          success: false,
+          error: 'Only type "directory" can be created here, use PUT to write files'
+        });
+      }
+
+      const dirPath = sanitizeInput(bodyPath || filePath);
+
+      if (!isSitePathTarget(dirPath)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid directory path'
+        });
+      }
+
+      console.log(`Creating directory: ${dirPath} for site: ${site.name}`);
+
+      await jekyllManager.createDirectory(id, dirPath);
+
+      res.status(201).json({
+        success: true,
+        message: 'Directory created successfully',
+        path: dirPath,
+        type: 'directory'
+      });
+    } catch (error: any) {
+      console.error(`Error creating directory:`, error);
+
+      res.status(fileErrorStatus(error)).json({
+        success: false,
+        error: error.code === 'ENOENT' ? 'File or directory not found' : error.message,
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
+    }
+  } else if (req.method === 'PATCH') {
+    try {
+      const { filePath: bodyFilePath, to, overwrite } = req.body || {};
+      const from = sanitizeInput(bodyFilePath || filePath);
+
+      if (!from || !to || typeof to !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'filePath and to are required'
+        });
+      }
+
+      const sanitizedTo = sanitizeInput(to);
+
+      // Validate both paths
+      if (!isSitePathTarget(from) || !isSitePathTarget(sanitizedTo)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid file path'
+        });
+      }
+
+      if (isCriticalFile(from)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Cannot move critical files'
+        });
+      }
+
+      console.log(`Moving ${from} to ${sanitizedTo} for site: ${site.name}`);
+
+      const type = await jekyllManager.moveFile(id, from, sanitizedTo, { overwrite: overwrite === true });
+
+      res.json({
+        success: true,
+        message: 'File moved successfully',
+        from,
+        to: sanitizedTo,
+        type
+      });
+    } catch (error: any) {
+      console.error(`Error moving file:`, error);
+
+      res.status(fileErrorStatus(error)).json({
+        success: false,
+        error: error.code === 'ENOENT' ? 'File or directory not found' : error.message,
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
+    }
+  } else if (req.method === 'DELETE') {
+    try {
+      const { filePath: bodyFilePath, recursive } = req.body || {};
+      // DELETE bodies get dropped by some clients, accept ?path= as well
+      const targetPath = bodyFilePath || filePath;
+
+      if (!targetPath) {
+        return res.status(400).json({
+          success: false,
+          error: 'filePath is required'
+        });
+      }
+
+      const sanitizedFilePath = sanitizeInput(targetPath);
+
+      // Validate file path
+      if (!isSitePathTarget(sanitizedFilePath)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid file path'
+        });
+      }
+
+      // Prevent deletion of critical files
+      if (isCriticalFile(sanitizedFilePath)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Cannot delete critical files'
+        });
+      }
+
+      console.log(`Deleting file: ${sanitizedFilePath} for site: ${site.name}`);
+
+      const type = await jekyllManager.deleteFile(id, sanitizedFilePath, {
+        recursive: recursive === true || req.query.recursive === 'true',
+        ifMatch: req.headers['if-match']
+      });
+
+      res.json({
+        success: true,
+        message: type === 'directory' ? 'Directory deleted successfully' : 'File deleted successfully',
+        filePath: sanitizedFilePath,
+        type
+      });
+    } catch (error: any) {
+      if (error.message === 'File has changed') {
+        return sendConflict(res, id, sanitizeInput((req.body || {}).filePath || filePath));
+      }
+
+      console.error(`Error deleting file:`, error);
+
+      res.status(fileErrorStatus(error)).json({
+        success: false,
+        error: error.code === 'ENOENT' ? 'File or directory not found' : error.message,
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
+    }
+  } else {
+    res.status(405).json({ error: 'Method not allowed' });
+  }
+}
\ No newline at end of file
@@ -1,9 +1,7 @@
 // pages/api/sites/[id]/index.ts
 import { NextApiRequest, NextApiResponse } from 'next';
-import JekyllManager from '../../../lib/jekyll-manager';
-import { applySecurityMiddleware } from '../../../middleware/cors-rate-limit';
- 
-const jekyllManager = new JekyllManager();
+import jekyllManager from '../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware
@@ -13,6 +11,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   
   if (!securityPassed) return;
 
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
   const { id } = req.query;
 
   if (!id || typeof id !== 'string') {
@@ -103,6 +104,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     try {
       const { name, description } = req.body;
       const site = jekyllManager.getSite(id);
+      let buildJob;
       
       if (!site) {
         return res.status(404).json({
@@ -113,27 +115,30 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       // Update site configuration
       if (name || description) {
-        const configPath = '_config.yml';
-        let configContent = await jekyllManager.readFile(id, configPath);
-        
-        // Simple YAML update (you might want to use a proper YAML parser)
-        if (name) {
-          configContent = configContent.replace(/^title:.*$/m, `title: "${name}"`);
-        }
-        if (description) {
-          configContent = configContent.replace(/^description:.*$/m, `description: "${description}"`);
+        const result = await jekyllManager.updateSiteConfig(id, {
+          ...(name ? { title: name } : {}),
+          ...(description ? { description } : {})
+        });
+
+        if (result.errors.length > 0) {
+          return res.status(422).json({
+            success: false,
+            error: 'Invalid config',
+            errors: result.errors
+          });
         }
-        
-        await jekyllManager.updateFile(id, configPath, configContent);
-        
+
         // Rebuild site with new config
-        await jekyllManager.buildSite(id);
+        if (result.changes.length > 0) {
+          buildJob = jekyllManager.enqueueBuild(id, { triggeredBy: 'site-update' });
+        }
       }
 
       res.json({
         success: true,
         message: 'Site updated successfully',
-        site: jekyllManager.getSite(id)
+        site: jekyllManager.getSite(id),
+        buildJobId: buildJob?.id
       });
     } catch (error: any) {
       console.error(`Error updating site ${id}:`, error);
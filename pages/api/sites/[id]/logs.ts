@@ -1,12 +1,12 @@
 // pages/api/sites/[id]/logs.ts
 import { NextApiRequest, NextApiResponse } from 'next';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
-import JekyllManager from '../../../../lib/jekyll-manager';
+import jekyllManager from '../../../../lib/jekyll-manager-instance';
 import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
 
 const execAsync = promisify(exec);
-const jekyllManager = new JekyllManager();
+const execFileAsync = promisify(execFile);
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware
@@ -16,6 +16,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   
   if (!securityPassed) return;
 
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -57,8 +60,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     } else if (type === 'serve') {
       // Get development server logs
       try {
-        const { stdout } = await execAsync(
-          `docker ps --filter name=${site.name} --format "table {{.Names}}\t{{.Status}}"`,
+        // The site name goes in as an argument, never through a shell
+        const { stdout } = await execFileAsync(
+          'docker',
+          ['ps', '--filter', `name=${site.name}`, '--format', 'table {{.Names}}\t{{.Status}}'],
           { timeout: 5000 }
         );
         logs = stdout.split('\n');
@@ -0,0 +1,137 @@
+// pages/api/sites/[id]/navigation/[menu].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getNavigationManager } from '../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+import { formatETag } from '../../../../../lib/file-etag';
+import { isValidMenuName, validateNavigationItems } from '../../../../../lib/navigation';
+
+// HTTP status for errors thrown by the navigation operations
+function navigationErrorStatus(error: any): number {
+  switch (error.message) {
+    case 'Menu not found':
+      return 404;
+    case 'File has changed':
+      return 412;
+    case 'Navigation data has errors':
+    case 'Invalid data':
+    case 'Data does not match its schema':
+    case 'Data schema is invalid':
+      return 422;
+    default:
+      return 500;
+  }
+}
+
+// One menu: its items in display order
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, menu } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  if (!menu || typeof menu !== 'string' || !isValidMenuName(menu)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Menu name must start with a letter and contain only letters, digits, dashes or underscores'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const navigationManager = getNavigationManager();
+
+  try {
+    if (req.method === 'GET') {
+      const navigation = await navigationManager.getNavigation(id);
+      if (!Object.prototype.hasOwnProperty.call(navigation.menus, menu)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Menu not found'
+        });
+      }
+
+      res.setHeader('ETag', formatETag(navigation.hash as string));
+      res.json({
+        success: true,
+        menu,
+        items: navigation.menus[menu],
+        etag: formatETag(navigation.hash as string)
+      });
+
+    } else if (req.method === 'PUT') {
+      const { items } = req.body || {};
+
+      const errors = validateNavigationItems(items);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid menu items',
+          errors
+        });
+      }
+
+      const navigation = await navigationManager.saveMenu(id, menu, items, {
+        ifMatch: req.headers['if-match']
+      });
+
+      res.setHeader('ETag', formatETag(navigation.hash as string));
+      res.json({
+        success: true,
+        message: 'Menu saved successfully',
+        menu,
+        items: navigation.menus[menu],
+        includeUpdated: navigation.includeUpdated,
+        etag: formatETag(navigation.hash as string)
+      });
+
+    } else if (req.method === 'DELETE') {
+      const navigation = await navigationManager.deleteMenu(id, menu, {
+        ifMatch: req.headers['if-match']
+      });
+
+      res.json({
+        success: true,
+        message: 'Menu deleted successfully',
+        menu,
+        etag: formatETag(navigation.hash as string)
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    const status = navigationErrorStatus(error);
+    if (status === 500) {
+      console.error(`Navigation API error for menu ${menu}:`, error);
+    }
+
+    res.status(status).json({
+      success: false,
+      error: error.message === 'File has changed' ? 'Navigation was changed by someone else' : error.message,
+      errors: error.errors,
+      details: process.env.NODE_ENV === 'development' && status === 500 ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,128 @@
+// pages/api/sites/[id]/posts/[postId]/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getPostManager } from '../../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../../middleware/cors-rate-limit';
+import { pickPostInput, validatePostInput } from '../../../../../../lib/post-manager';
+
+// HTTP status for errors thrown by the post operations
+function postErrorStatus(error: any): number {
+  switch (error.message) {
+    case 'Post not found':
+      return 404;
+    case 'Invalid post date':
+    case 'Title or slug must contain letters or digits':
+    case 'Post needs a date to be renamed':
+      return 400;
+    case 'Post already exists':
+    case 'Destination already exists':
+      return 409;
+    case 'File has changed':
+      return 412;
+    case 'Post has malformed front matter':
+      return 422;
+    default:
+      return 500;
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, postId } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  if (!postId || typeof postId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Post ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const postManager = getPostManager();
+
+  try {
+    if (req.method === 'GET') {
+      const post = await postManager.getPost(id, postId);
+      if (!post) {
+        return res.status(404).json({
+          success: false,
+          error: 'Post not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        post
+      });
+
+    } else if (req.method === 'PUT') {
+      const errors = validatePostInput(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid post',
+          errors
+        });
+      }
+
+      const post = await postManager.updatePost(id, postId, pickPostInput(req.body), {
+        ifMatch: req.headers['if-match']
+      });
+
+      res.json({
+        success: true,
+        message: 'Post updated successfully',
+        post
+      });
+
+    } else if (req.method === 'DELETE') {
+      await postManager.deletePost(id, postId, {
+        ifMatch: req.headers['if-match']
+      });
+
+      res.json({
+        success: true,
+        message: 'Post deleted successfully',
+        postId
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    const status = postErrorStatus(error);
+    if (status === 500) {
+      console.error(`Post API error for ${postId}:`, error);
+    }
+
+    res.status(status).json({
+      success: false,
+      error: error.message === 'File has changed' ? 'Post was changed by someone else' : error.message,
+      details: process.env.NODE_ENV === 'development' && status === 500 ? error.stack : undefined
+    });
+  }
+}
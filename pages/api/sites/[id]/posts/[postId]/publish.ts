@@ -0,0 +1,95 @@
+// pages/api/sites/[id]/posts/[postId]/publish.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getPostManager } from '../../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../../middleware/cors-rate-limit';
+
+// HTTP status for errors thrown while publishing or unpublishing
+function publishErrorStatus(error: any): number {
+  switch (error.message) {
+    case 'Post not found':
+      return 404;
+    case 'Invalid post date':
+      return 400;
+    case 'Post already exists':
+    case 'Post is already published':
+    case 'Post is not published':
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+// Publishing: POST moves a draft to _posts, DELETE moves a post back to _drafts
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, postId } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  if (!postId || typeof postId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Post ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { date } = req.body || {};
+
+  if (date !== undefined && typeof date !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'date must be a string'
+    });
+  }
+
+  try {
+    const post = req.method === 'POST'
+      ? await getPostManager().publishPost(id, postId, date)
+      : await getPostManager().unpublishPost(id, postId);
+
+    res.json({
+      success: true,
+      message: post.status === 'published' ? 'Post published successfully' : 'Post moved to drafts',
+      post
+    });
+
+  } catch (error: any) {
+    const status = publishErrorStatus(error);
+    if (status === 500) {
+      console.error(`Error publishing post ${postId}:`, error);
+    }
+
+    res.status(status).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' && status === 500 ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,115 @@
+// pages/api/sites/[id]/posts/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getPostManager } from '../../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+import { pickPostInput, validatePostInput } from '../../../../../lib/post-manager';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, status, tag, category } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  const postManager = getPostManager();
+
+  try {
+    if (req.method === 'GET') {
+      const postStatus = status === 'published' || status === 'draft' ? status : undefined;
+
+      if (status !== undefined && !postStatus) {
+        return res.status(400).json({
+          success: false,
+          error: 'status must be "published" or "draft"'
+        });
+      }
+
+      let posts = await postManager.listPosts(id, postStatus);
+
+      if (typeof tag === 'string') {
+        posts = posts.filter(post => post.tags.includes(tag));
+      }
+      if (typeof category === 'string') {
+        posts = posts.filter(post => post.categories.includes(category));
+      }
+
+      res.json({
+        success: true,
+        posts,
+        count: posts.length
+      });
+
+    } else if (req.method === 'POST') {
+      const errors = validatePostInput(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid post',
+          errors
+        });
+      }
+
+      if (!req.body.title) {
+        return res.status(400).json({
+          success: false,
+          error: 'Title is required'
+        });
+      }
+
+      const post = await postManager.createPost(id, pickPostInput(req.body), { draft: req.body.draft === true });
+
+      res.status(201).json({
+        success: true,
+        message: post.status === 'draft' ? 'Draft created successfully' : 'Post created successfully',
+        post
+      });
+
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error: any) {
+    if (error.message === 'Post already exists') {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (error.message === 'Title or slug must contain letters or digits') {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Posts API error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -1,10 +1,8 @@
 // pages/api/sites/[id]/preview.ts
 import { NextApiRequest, NextApiResponse } from 'next';
-import JekyllManager from '../../../../lib/jekyll-manager';
+import jekyllManager from '../../../../lib/jekyll-manager-instance';
 import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
 
-const jekyllManager = new JekyllManager();
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware
   const securityPassed = await applySecurityMiddleware(req, res, {
@@ -13,6 +11,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   
   if (!securityPassed) return;
 
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -60,11 +61,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     } catch (fileError) {
       // If file not found in _site, try to build first
       if (site.status === 'ready') {
-        await jekyllManager.buildSite(id);
+        const job = jekyllManager.enqueueBuild(id, { triggeredBy: 'preview' });
         return res.status(202).json({
           success: false,
           message: 'Site is being built. Please try again in a moment.',
-          buildInProgress: true
+          buildInProgress: true,
+          jobId: job.id
         });
       }
       
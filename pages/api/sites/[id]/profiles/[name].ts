@@ -0,0 +1,114 @@
+// pages/api/sites/[id]/profiles/[name].ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../lib/jekyll-manager-instance';
+import {
+  DEFAULT_BUILD_PROFILES,
+  getDefaultProfileName,
+  pickBuildProfileFields,
+  validateBuildProfile
+} from '../../../../../lib/build-profiles';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, name } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Profile name is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const profile = jekyllManager.getBuildProfiles(id)[name];
+      if (!profile) {
+        return res.status(404).json({
+          success: false,
+          error: 'Build profile not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        profile
+      });
+    } else if (req.method === 'PUT') {
+      const errors = validateBuildProfile(name, req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid build profile',
+          errors
+        });
+      }
+
+      const profile = await jekyllManager.saveBuildProfile(id, name, pickBuildProfileFields(req.body));
+      console.log(`Build profile ${name} saved for site: ${site.name}`);
+
+      res.json({
+        success: true,
+        profile
+      });
+    } else if (req.method === 'DELETE') {
+      const builtIn = !!DEFAULT_BUILD_PROFILES[name];
+
+      if (name === getDefaultProfileName() && !builtIn) {
+        return res.status(409).json({
+          success: false,
+          error: 'The default build profile cannot be deleted'
+        });
+      }
+
+      const removed = await jekyllManager.deleteBuildProfile(id, name);
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          error: builtIn ? 'Built-in profile has no changes to reset' : 'Build profile not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: builtIn ? 'Build profile reset' : 'Build profile deleted',
+        // Built-in profiles fall back to their defaults
+        profile: jekyllManager.getBuildProfiles(id)[name]
+      });
+    } else {
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error(`Error handling build profile ${name} for site ${site.name}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
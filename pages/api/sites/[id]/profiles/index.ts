@@ -0,0 +1,59 @@
+// pages/api/sites/[id]/profiles/index.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../../lib/jekyll-manager-instance';
+import { DEFAULT_BUILD_PROFILES, getDefaultProfileName } from '../../../../../lib/build-profiles';
+import { applySecurityMiddleware } from '../../../../../middleware/cors-rate-limit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  try {
+    const profiles = jekyllManager.getBuildProfiles(id);
+
+    res.json({
+      success: true,
+      defaultProfile: getDefaultProfileName(),
+      profiles: Object.values(profiles).map(profile => ({
+        ...profile,
+        builtIn: !!DEFAULT_BUILD_PROFILES[profile.name],
+        customized: !!site.buildProfiles?.[profile.name]
+      }))
+    });
+  } catch (error: any) {
+    console.error(`Error fetching build profiles for site ${site.name}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+}
@@ -0,0 +1,124 @@
+// pages/api/sites/[id]/replace.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getSearchManager } from '../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
+import { pickSearchQuery, validateSearchQuery } from '../../../../lib/site-search';
+import { MAX_BATCH_OPERATIONS } from '../../../../lib/file-batch';
+
+const isStringMap = (value: any) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value).every(item => typeof item === 'string');
+
+// Replace text across a site's sources, with a diff preview first
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { replacement, preview, paths, versions, rebuild } = req.body || {};
+
+  const errors = validateSearchQuery(req.body);
+  if (typeof replacement !== 'string') {
+    errors.push('replacement must be a string');
+  }
+  if (preview !== undefined && typeof preview !== 'boolean') {
+    errors.push('preview must be true or false');
+  }
+  if (paths !== undefined && (!Array.isArray(paths) || paths.some(item => typeof item !== 'string'))) {
+    errors.push('paths must be a list of file paths');
+  }
+  if (versions !== undefined && !isStringMap(versions)) {
+    errors.push('versions must map file paths to hashes');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid replace',
+      errors
+    });
+  }
+
+  try {
+    const result = await getSearchManager().replace(id, pickSearchQuery(req.body), replacement, {
+      // Nothing is written unless asked for explicitly
+      preview: preview !== false,
+      paths,
+      versions
+    });
+
+    // One build for all changed files
+    const buildJob = result.applied && rebuild === true
+      ? jekyllManager.enqueueBuild(id, { triggeredBy: 'replace' })
+      : undefined;
+
+    res.json({
+      success: true,
+      message: result.applied
+        ? `Replaced ${result.totalReplacements} match(es) in ${result.files.length} file(s)`
+        : 'Replace previewed, nothing was written',
+      preview: !result.applied,
+      ...result,
+      buildJobId: buildJob?.id
+    });
+
+  } catch (error: any) {
+    if (error.message === 'Search took too long') {
+      return res.status(422).json({
+        success: false,
+        error: `${error.message}, simplify the pattern or narrow the files with include`
+      });
+    }
+
+    if (error.message === 'Too many files to replace at once') {
+      return res.status(400).json({
+        success: false,
+        error: `${error.message}, narrow it down to at most ${MAX_BATCH_OPERATIONS} files with include or paths`
+      });
+    }
+
+    if (error.message === 'File has changed') {
+      // Nothing was written, the batch was rolled back
+      return res.status(412).json({
+        success: false,
+        error: 'A file was changed since the preview, preview again',
+        path: error.path
+      });
+    }
+
+    console.error(`Replace error for site ${id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,73 @@
+// pages/api/sites/[id]/search.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager, { getSearchManager } from '../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
+import { pickSearchQuery, validateSearchQuery } from '../../../../lib/site-search';
+
+// Find text across a site's sources
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const errors = validateSearchQuery(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid search',
+      errors
+    });
+  }
+
+  try {
+    const result = await getSearchManager().search(id, pickSearchQuery(req.body));
+
+    res.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error: any) {
+    if (error.message === 'Search took too long') {
+      return res.status(422).json({
+        success: false,
+        error: `${error.message}, simplify the pattern or narrow the files with include`
+      });
+    }
+
+    console.error(`Search error for site ${id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -0,0 +1,96 @@
+// pages/api/sites/[id]/tree.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
+import { isPathSafe } from '../../../../lib/file-rules';
+
+const MAX_TREE_DEPTH = 50;
+
+// Whole source tree of a site in one call, for the file explorer
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id, path: root = '', depth, ignore, hidden, hash } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (typeof root !== 'string' || (root !== '' && !isPathSafe(root))) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid path'
+    });
+  }
+
+  let maxDepth: number | undefined;
+  if (depth !== undefined) {
+    maxDepth = Number(depth);
+    if (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > MAX_TREE_DEPTH) {
+      return res.status(400).json({
+        success: false,
+        error: `depth must be a whole number between 0 and ${MAX_TREE_DEPTH}`
+      });
+    }
+  }
+
+  // ?ignore=*.psd,drafts/** or repeated ?ignore=
+  const ignorePatterns = (Array.isArray(ignore) ? ignore : [ignore || ''])
+    .flatMap(value => value.split(','))
+    .map(pattern => pattern.trim())
+    .filter(Boolean);
+
+  try {
+    const tree = await jekyllManager.getFileTree(id, {
+      root,
+      depth: maxDepth,
+      ignore: ignorePatterns,
+      hidden: hidden === 'true',
+      hash: hash !== 'false'
+    });
+
+    res.json({
+      success: true,
+      tree
+    });
+
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+      return res.status(404).json({
+        success: false,
+        error: 'Path not found'
+      });
+    }
+
+    console.error('Error reading file tree:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
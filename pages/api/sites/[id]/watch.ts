@@ -0,0 +1,68 @@
+// pages/api/sites/[id]/watch.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../../middleware/cors-rate-limit';
+
+// Watch mode: rebuild the site whenever its sources change
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Site ID is required'
+    });
+  }
+
+  // Check if site exists
+  const site = jekyllManager.getSite(id);
+  if (!site) {
+    return res.status(404).json({
+      success: false,
+      error: 'Site not found'
+    });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      const enabled = req.method === 'POST';
+      await jekyllManager.setWatchMode(id, enabled);
+      console.log(`Watch mode ${enabled ? 'enabled' : 'disabled'} for site: ${site.name}`);
+    }
+
+    res.json({
+      success: true,
+      watch: {
+        enabled: !!site.watch,
+        active: jekyllManager.isWatching(id)
+      },
+      site: {
+        id: site.id,
+        name: site.name,
+        status: site.status
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error updating watch mode for site ${site.name}:`, error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message,
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+}
@@ -1,11 +1,10 @@
 // pages/api/sites/create.ts
 import { NextApiRequest, NextApiResponse } from 'next';
 import GeminiService from '../../../lib/gemini';
-import JekyllManager from '../../../lib/jekyll-manager';
+import jekyllManager from '../../../lib/jekyll-manager-instance';
 import { applySecurityMiddleware, validateSiteName, sanitizeInput } from '../../../middleware/cors-rate-limit';
  
 const gemini = new GeminiService();
-const jekyllManager = new JekyllManager();
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware
@@ -16,6 +15,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   
   if (!securityPassed) return;
 
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -61,22 +63,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Log the creation attempt
     console.log(`Creating site with prompt: ${sanitizedPrompt.substring(0, 100)}...`);
 
-    // Generate site structure using Gemini AI
-    const structure = await gemini.generateSiteStructure(sanitizedPrompt);
-
-    // Use provided name or generated name from structure
-    const finalName = sanitizedName || structure.name;
-
-    // Create Jekyll site
-    const site = await jekyllManager.createSite({ name: finalName }, structure);
-
-    // Build the site
-    const buildResult = await jekyllManager.buildSite(site.id);
+    // Register the site and let its first build job generate the structure
+    // with Gemini AI, so the response doesn't wait for the AI call. Without
+    // a name the site takes the generated one.
+    const { site, job: buildJob } = await jekyllManager.createSiteInBackground(
+      { name: sanitizedName },
+      () => gemini.generateSiteStructure(sanitizedPrompt)
+    );
 
-    // Log successful creation
-    console.log(`Site created successfully: ${site.name} (${site.id})`);
+    console.log(`Site queued for creation: ${site.name} (${site.id})`);
 
-    res.status(201).json({
+    res.status(202).json({
       success: true,
       site: {
         id: site.id,
@@ -85,16 +82,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         createdAt: site.createdAt,
         lastBuilt: site.lastBuilt
       },
-      structure: {
-        name: structure.name,
-        title: structure.title,
-        description: structure.description,
-        theme: structure.theme,
-        layoutsCount: structure.layouts.length,
-        postsCount: structure.posts.length,
-        pagesCount: structure.pages.length
+      buildJob: {
+        id: buildJob.id,
+        status: buildJob.status,
+        statusUrl: `/api/jobs/${buildJob.id}`
       },
-      buildResult,
       previewUrl: null // Will be set when site is served
     });
 
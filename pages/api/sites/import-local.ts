@@ -0,0 +1,49 @@
+// pages/api/sites/import-local.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import jekyllManager from '../../../lib/jekyll-manager-instance';
+import { applySecurityMiddleware } from '../../../middleware/cors-rate-limit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await applySecurityMiddleware(req, res, {
+    rateLimitType: 'api'
+  });
+
+  if (!securityPassed) return;
+
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const dryRun = req.body?.dryRun === true || req.query.dryRun === 'true';
+
+    const discovered = await jekyllManager.discoverLocalSites({ dryRun });
+
+    console.log(`${dryRun ? 'Found' : 'Imported'} ${discovered.length} local site(s)`);
+
+    res.json({
+      success: true,
+      dryRun,
+      count: discovered.length,
+      sites: discovered.map(site => ({
+        // IDs are only assigned once a site is actually imported
+        id: dryRun ? undefined : site.id,
+        name: site.name,
+        path: site.path,
+        status: site.status,
+        createdAt: site.createdAt,
+        lastBuilt: site.lastBuilt
+      }))
+    });
+  } catch (error: any) {
+    console.error('Error importing local sites:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+}
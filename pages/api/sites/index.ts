@@ -1,10 +1,8 @@
 // pages/api/sites/index.ts
 import { NextApiRequest, NextApiResponse } from 'next';
-import JekyllManager from '../../../lib/jekyll-manager';
+import jekyllManager from '../../../lib/jekyll-manager-instance';
 import { applySecurityMiddleware } from '../../../middleware/cors-rate-limit';
 
-const jekyllManager = new JekyllManager();
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware
   const securityPassed = await applySecurityMiddleware(req, res, {
@@ -13,6 +11,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   
   if (!securityPassed) return;
 
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
   if (req.method === 'GET') {
     try {
       const { status, limit = 50, offset = 0 } = req.query;
@@ -2,11 +2,10 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import JekyllManager from '../../../lib/jekyll-manager';
+import jekyllManager from '../../../lib/jekyll-manager-instance';
 import { applySecurityMiddleware } from '../../../middleware/cors-rate-limit';
 
 const execAsync = promisify(exec);
-const jekyllManager = new JekyllManager();
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware
@@ -16,6 +15,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   
   if (!securityPassed) return;
 
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -70,6 +72,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       services: {
         docker: dockerStatus,
         jekyllContainer: jekyllContainerStatus,
+        jekyllRunner: jekyllManager.getRunnerName(),
         api: 'running'
       },
       sites: {
@@ -81,6 +84,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           error: sites.filter(s => s.status === 'error').length
         }
       },
+      builds: {
+        ...jekyllManager.getBuildQueueStats(),
+        cache: jekyllManager.getBuildCacheStats()
+      },
       environment: {
         nodeEnv: process.env.NODE_ENV,
         hasGeminiKey: !!process.env.GEMINI_API_KEY,
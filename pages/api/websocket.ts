@@ -1,13 +1,10 @@
 // pages/api/websocket.ts
 import { NextApiRequest, NextApiResponse } from 'next';
 import { WebSocketServer, WebSocket } from 'ws';
-import { IncomingMessage } from 'http';
-import { Server } from 'net';
-import JekyllManager from '../../lib/jekyll-manager';
+import { IncomingMessage, Server } from 'http';
+import jekyllManager, { findService, setService, removeService } from '../../lib/jekyll-manager-instance';
 import { applySecurityMiddleware } from '../../middleware/cors-rate-limit';
 
-const jekyllManager = new JekyllManager();
-
 interface ExtendedWebSocket extends WebSocket {
   id: string;
   isAlive: boolean;
@@ -25,6 +22,7 @@ class WebSocketManager {
   private wss: WebSocketServer | null = null;
   private clients: Set<ExtendedWebSocket> = new Set();
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private managerListeners: Array<[string, (...args: any[]) => void]> = [];
 
   constructor() {
     this.setupJekyllManagerListeners();
@@ -137,6 +135,24 @@ class WebSocketManager {
           }
           break;
 
+        case 'cancelBuild':
+          if (data.siteId) {
+            try {
+              const cancelled = jekyllManager.cancelBuild(data.siteId, data.data?.jobId);
+              this.sendToClient(ws, {
+                type: 'buildCancelRequested',
+                data: { siteId: data.siteId, jobIds: cancelled.map(job => job.id) },
+                siteId: data.siteId
+              });
+            } catch (error: any) {
+              this.sendToClient(ws, {
+                type: 'error',
+                data: { message: error.message }
+              });
+            }
+          }
+          break;
+
         case 'getSites':
           const sites = jekyllManager.getAllSites();
           this.sendToClient(ws, {
@@ -188,7 +204,7 @@ class WebSocketManager {
   }
 
   private setupJekyllManagerListeners(): void {
-    jekyllManager.on('siteStatusChanged', (site) => {
+    this.listen('siteStatusChanged', (site) => {
       this.broadcast({
         type: 'siteStatusChanged',
         data: site,
@@ -196,7 +212,7 @@ class WebSocketManager {
       });
     });
 
-    jekyllManager.on('fileChanged', ({ site, filePath }) => {
+    this.listen('fileChanged', ({ site, filePath }) => {
       this.broadcastToSiteSubscribers(site.id, {
         type: 'fileChanged',
         data: { site, filePath },
@@ -204,7 +220,55 @@ class WebSocketManager {
       });
     });
 
-    jekyllManager.on('siteBuilt', (site) => {
+    this.listen('fileUpdated', ({ site, filePath, hash }) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'fileUpdated',
+        data: { site, filePath, hash },
+        siteId: site.id
+      });
+    });
+
+    this.listen('filesBatchUpdated', ({ site, changes }) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'filesBatchUpdated',
+        data: { site, changes },
+        siteId: site.id
+      });
+    });
+
+    this.listen('fileDeleted', ({ site, filePath, type }) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'fileDeleted',
+        data: { site, filePath, type },
+        siteId: site.id
+      });
+    });
+
+    this.listen('fileMoved', ({ site, from, to, type }) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'fileMoved',
+        data: { site, from, to, type },
+        siteId: site.id
+      });
+    });
+
+    this.listen('directoryCreated', ({ site, dirPath }) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'directoryCreated',
+        data: { site, dirPath },
+        siteId: site.id
+      });
+    });
+
+    this.listen('assetUploaded', ({ site, filePath, size }) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'assetUploaded',
+        data: { site, filePath, size },
+        siteId: site.id
+      });
+    });
+
+    this.listen('siteBuilt', (site) => {
       this.broadcast({
         type: 'siteBuilt',
         data: site,
@@ -212,7 +276,55 @@ class WebSocketManager {
       });
     });
 
-    jekyllManager.on('siteCreated', (site) => {
+    this.listen('buildJobUpdated', (job) => {
+      this.broadcastToSiteSubscribers(job.siteId, {
+        type: 'buildJobUpdated',
+        data: job,
+        siteId: job.siteId
+      });
+    });
+
+    this.listen('buildOutput', (entry) => {
+      this.broadcastToSiteSubscribers(entry.siteId, {
+        type: 'buildOutput',
+        data: entry,
+        siteId: entry.siteId
+      });
+    });
+
+    this.listen('buildCancelled', ({ site, job }) => {
+      this.broadcastToSiteSubscribers(job.siteId, {
+        type: 'buildCancelled',
+        data: { site, job },
+        siteId: job.siteId
+      });
+    });
+
+    this.listen('buildActivated', ({ site, build }) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'buildActivated',
+        data: { site, build },
+        siteId: site.id
+      });
+    });
+
+    this.listen('siteWatchChanged', (site) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'siteWatchChanged',
+        data: { site, enabled: !!site.watch },
+        siteId: site.id
+      });
+    });
+
+    this.listen('watchRebuildQueued', ({ site, job, files }) => {
+      this.broadcastToSiteSubscribers(site.id, {
+        type: 'watchRebuildQueued',
+        data: { site, job, files },
+        siteId: site.id
+      });
+    });
+
+    this.listen('siteCreated', (site) => {
       this.broadcast({
         type: 'siteCreated',
         data: site,
@@ -220,7 +332,15 @@ class WebSocketManager {
       });
     });
 
-    jekyllManager.on('siteDeleted', (site) => {
+    this.listen('siteImported', (site) => {
+      this.broadcast({
+        type: 'siteImported',
+        data: site,
+        siteId: site.id
+      });
+    });
+
+    this.listen('siteDeleted', (site) => {
       this.broadcast({
         type: 'siteDeleted',
         data: site,
@@ -228,7 +348,7 @@ class WebSocketManager {
       });
     });
 
-    jekyllManager.on('siteServing', (site) => {
+    this.listen('siteServing', (site) => {
       this.broadcast({
         type: 'siteServing',
         data: site,
@@ -236,7 +356,7 @@ class WebSocketManager {
       });
     });
 
-    jekyllManager.on('siteStopped', (site) => {
+    this.listen('siteStopped', (site) => {
       this.broadcast({
         type: 'siteStopped',
         data: site,
@@ -245,6 +365,14 @@ class WebSocketManager {
     });
   }
 
+  /**
+   * Subscribe to a JekyllManager event and remember it for cleanup
+   */
+  private listen(event: string, listener: (...args: any[]) => void): void {
+    jekyllManager.on(event, listener);
+    this.managerListeners.push([event, listener]);
+  }
+
   private startHeartbeat(): void {
     this.heartbeatInterval = setInterval(() => {
       this.clients.forEach(ws => {
@@ -285,6 +413,12 @@ class WebSocketManager {
       clearInterval(this.heartbeatInterval);
     }
 
+    // The shared JekyllManager outlives this instance
+    this.managerListeners.forEach(([event, listener]) => {
+      jekyllManager.off(event, listener);
+    });
+    this.managerListeners = [];
+
     this.clients.forEach(ws => {
       ws.close();
     });
@@ -295,8 +429,9 @@ class WebSocketManager {
   }
 }
 
-// Global WebSocket manager instance
-let wsManager: WebSocketManager | null = null;
+// The WebSocket manager lives in the shared service container so it
+// survives hot reloads of this route
+const WS_MANAGER_SERVICE = 'websocketManager';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware
@@ -307,8 +442,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   if (!securityPassed) return;
 
+  // Make sure persisted sites are loaded
+  await jekyllManager.ready();
+
   if (req.method === 'GET') {
     // HTTP endpoint to get WebSocket statistics
+    const wsManager = findService<WebSocketManager>(WS_MANAGER_SERVICE);
     if (!wsManager) {
       return res.status(503).json({ success: false, error: 'WebSocket server not initialized' });
     }
@@ -327,10 +466,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   } else if (req.method === 'POST') {
     // Initialize WebSocket server
     try {
-      if (!wsManager) {
-        wsManager = new WebSocketManager();
+      if (!findService<WebSocketManager>(WS_MANAGER_SERVICE)) {
         // In Next.js, we need to get the HTTP server from the request
         if (req.socket && (req.socket as any).server) {
+          const wsManager = setService(WS_MANAGER_SERVICE, new WebSocketManager());
           wsManager.initialize((req.socket as any).server);
         } else {
           return res.status(500).json({
@@ -355,9 +494,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   } else if (req.method === 'DELETE') {
     // Cleanup WebSocket server
     try {
+      const wsManager = findService<WebSocketManager>(WS_MANAGER_SERVICE);
       if (wsManager) {
         wsManager.cleanup();
-        wsManager = null;
+        removeService(WS_MANAGER_SERVICE);
       }
 
       res.json({